@@ -0,0 +1,99 @@
+// Times the wall-lines loader and the opening cuts on a generated floor plan.
+//
+//   npm run bench:cutouts -- [rooms per side]
+//
+// The plan is a square grid of 12 ft rooms, each drawn with its own four walls
+// (so every interior wall is drawn twice, as the lines format does) and one
+// door and one window on every wall. The rebuild runs the viewer's own wall
+// code (src/walls.ts): the wall index, corner joins and opening cuts.
+import { performance } from 'node:perf_hooks';
+import { createServer } from 'vite';
+
+const ROOM = 12;
+const side = Number(process.argv[2] ?? 10);
+if (!Number.isInteger(side) || side < 1) {
+  console.error('usage: npm run bench:cutouts -- [rooms per side]');
+  process.exit(1);
+}
+
+function generatePlan(n) {
+  const walls = [];
+  const cutouts = [];
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      const x = i * ROOM;
+      const y = j * ROOM;
+      const corners = [[x, y], [x + ROOM, y], [x + ROOM, y + ROOM], [x, y + ROOM]];
+      corners.forEach(([sx, sy], k) => {
+        const [ex, ey] = corners[(k + 1) % 4];
+        walls.push({ room: `Room ${i}-${j}`, start: { x: sx, y: sy }, end: { x: ex, y: ey } });
+        // One door and one window per wall, placed once even where two rooms share it
+        const shared = (k === 1 && i < n - 1) || (k === 2 && j < n - 1);
+        if (!shared) {
+          const lo = [Math.min(sx, ex), Math.min(sy, ey)];
+          const along = (f) => ({ x: lo[0] + (ex !== sx ? ROOM * f : 0), y: lo[1] + (ey !== sy ? ROOM * f : 0) });
+          cutouts.push({ type: 'door', position: along(0.25), width: 3, height: 7 });
+          cutouts.push({ type: 'window', position: along(0.7), width: 4, height: 4, sill_height: 3 });
+        }
+      });
+    }
+  }
+  return { units: 'feet', default_wall_height: 9, walls, cutouts };
+}
+
+// The viewer's wall registry for a model: one WallSolid per wall, placed like
+// its mesh, with each opening projected onto every wall it is cut through
+function wallSolids(model) {
+  const walls = new Map();
+  model.walls.forEach((wall, idx) => {
+    const dx = wall.end[0] - wall.start[0];
+    const dz = wall.end[1] - wall.start[1];
+    walls.set(idx, {
+      length: Math.hypot(dx, dz),
+      height: wall.height,
+      thickness: wall.thickness,
+      baseElev: wall.baseElev,
+      worldPos: { x: (wall.start[0] + wall.end[0]) / 2, z: (wall.start[1] + wall.end[1]) / 2 },
+      worldRotY: -Math.atan2(dz, dx),
+      openings: [],
+    });
+  });
+  model.openings.forEach((opening) => opening.hosts.forEach((idx) => {
+    const wall = model.walls[idx];
+    const solid = walls.get(idx);
+    const dx = wall.end[0] - wall.start[0];
+    const dz = wall.end[1] - wall.start[1];
+    const t = ((opening.at[0] - wall.start[0]) * dx + (opening.at[1] - wall.start[1]) * dz) / (dx * dx + dz * dz);
+    solid.openings.push({ offset: (t - 0.5) * solid.length, sill: opening.sill, width: opening.width, height: opening.height });
+  }));
+  return walls;
+}
+
+// Same as the viewer's rebuildAllWalls: one index, then every wall joined and cut
+function rebuildAllWalls(walls, { createWallIndex, buildWallGeometry }) {
+  const wallsNear = createWallIndex(walls);
+  walls.forEach((wall, key) => buildWallGeometry(key, wall, walls, wallsNear).dispose());
+}
+
+const server = await createServer({ server: { middlewareMode: true }, appType: 'custom', logLevel: 'error' });
+try {
+  const { linesToModel } = await server.ssrLoadModule('/src/loaders.ts');
+  const wallsModule = await server.ssrLoadModule('/src/walls.ts');
+  const plan = generatePlan(side);
+
+  let start = performance.now();
+  const model = linesToModel(plan, 'bench.json');
+  const loadMs = performance.now() - start;
+
+  const walls = wallSolids(model);
+  const cuts = Array.from(walls.values()).reduce((sum, wall) => sum + wall.openings.length, 0);
+  start = performance.now();
+  rebuildAllWalls(walls, wallsModule);
+  const cutMs = performance.now() - start;
+
+  console.log(`${side}×${side} rooms: ${plan.walls.length} walls, ${plan.cutouts.length} cutouts`);
+  console.log(`linesToModel  ${loadMs.toFixed(1)} ms (${model.openings.length} openings, ${model.metadata.issues.length} issues)`);
+  console.log(`wall rebuild  ${cutMs.toFixed(1)} ms (${walls.size} walls joined, ${cuts} openings cut)`);
+} finally {
+  await server.close();
+}
@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest';
+import {
+  FORMAT_LOADERS,
+  canonicalLevelId,
+  cleanWallTopology,
+  parseFeetInches,
+  parseScaleText,
+  planToModel,
+  resolveLevelElevation,
+  validateFormatSchema,
+} from './loaders';
+import type { JoinSegment, PlanJson } from './loaders';
+
+describe('parseFeetInches', () => {
+  it.each([
+    [`12'-6"`, 12.5],
+    [`9'-1 1/2"`, 9.125],
+    [`12′ 6″`, 12.5],
+    [`3-6"`, 3.5],
+    [`30"`, 2.5],
+    [`5 1/2"`, 5.5 / 12],
+    ['12 ft', 12],
+    [`8'`, 8],
+    ['8', 8],
+    ['10.5', 10.5],
+  ])('%s → %d ft', (text, feet) => {
+    expect(parseFeetInches(text)).toBeCloseTo(feet, 6);
+  });
+
+  it('passes numbers through', () => {
+    expect(parseFeetInches(7.25)).toBe(7.25);
+  });
+
+  it('falls back on empty or unparseable input', () => {
+    expect(parseFeetInches('', 9)).toBe(9);
+    expect(parseFeetInches('TBD', 9)).toBe(9);
+    expect(parseFeetInches(undefined, 4)).toBe(4);
+    expect(parseFeetInches('n/a', NaN)).toBeNaN();
+  });
+});
+
+describe('parseScaleText', () => {
+  it.each([
+    [`1/4" = 1'-0"`, 0.25],
+    [`3/16" = 1'-0"`, 0.1875],
+    [`SCALE: 1/8" = 1'`, 0.125],
+    [`1" = 10'`, 0.1],
+  ])('%s → %d paper inches per foot', (text, perFoot) => {
+    expect(parseScaleText(text)).toBeCloseTo(perFoot, 6);
+  });
+
+  it('rejects text that is not a scale', () => {
+    expect(parseScaleText('NTS')).toBeNull();
+    expect(parseScaleText('AS NOTED')).toBeNull();
+    expect(parseScaleText(`1/4" = `)).toBeNull();
+    expect(parseScaleText(null)).toBeNull();
+  });
+
+  it('rejects scales outside the plausible drawing range', () => {
+    expect(parseScaleText(`1" = 100'`)).toBeNull();
+    expect(parseScaleText(`6" = 1'`)).toBeNull();
+  });
+});
+
+describe('canonicalLevelId', () => {
+  it.each([
+    ['1ST', 'MAIN FLOOR'],
+    ['main', 'MAIN FLOOR'],
+    ['Main Floor', 'MAIN FLOOR'],
+    ['first floor', 'MAIN FLOOR'],
+    ['2ND', 'SECOND FLOOR'],
+    ['2nd floor', 'SECOND FLOOR'],
+    ['SECOND', 'SECOND FLOOR'],
+    ['3RD', '3RD FLOOR'],
+    ['3rd  floor', '3RD FLOOR'],
+    ['THIRD FLOOR', '3RD FLOOR'],
+    ['4TH FLOOR', '4TH FLOOR'],
+    ['11th', '11TH FLOOR'],
+    ['21st', '21ST FLOOR'],
+    ['garage', 'GARAGE'],
+    ['SUN ROOM', 'SUN ROOM'],
+  ])('%s → %s', (label, id) => {
+    expect(canonicalLevelId(label)).toBe(id);
+  });
+
+  it('does not treat roof labels as storeys', () => {
+    expect(canonicalLevelId('ROOF')).toBe('');
+    expect(canonicalLevelId('roof')).toBe('');
+    expect(canonicalLevelId('BIRDS EYE ROOF FRAMING')).toBe('');
+    expect(canonicalLevelId('CEILING/ROOF')).toBe('');
+  });
+
+  it('gives no level for blank and default labels', () => {
+    expect(canonicalLevelId('  ')).toBe('');
+    expect(canonicalLevelId('default')).toBe('');
+  });
+});
+
+describe('resolveLevelElevation', () => {
+  it('stacks storeys above the second at the floor-to-floor height', () => {
+    expect(resolveLevelElevation('MAIN FLOOR')).toBe(0);
+    expect(resolveLevelElevation('2nd floor')).toBe(9);
+    expect(resolveLevelElevation('3RD')).toBe(18);
+    expect(resolveLevelElevation('3RD FLOOR')).toBe(18);
+    expect(resolveLevelElevation('4th floor')).toBe(27);
+  });
+
+  it('knows no elevation for roof or unknown labels', () => {
+    expect(resolveLevelElevation('ROOF')).toBeNull();
+    expect(resolveLevelElevation('COURTYARD')).toBeNull();
+  });
+});
+
+describe('cleanWallTopology', () => {
+  const wall = (x1: number, y1: number, x2: number, y2: number, kind = 'wall', thickness = 10): JoinSegment => ({
+    x1, y1, x2, y2, thickness, kind, sources: [],
+    axis: y1 === y2 ? 'h' : x1 === x2 ? 'v' : null,
+  });
+
+  it('merges overlapping and nearly touching collinear walls of one class', () => {
+    const { segments, merged } = cleanWallTopology([wall(0, 0, 100, 0), wall(90, 2, 200, 2), wall(205, 0, 300, 0)]);
+    expect(merged).toBe(2);
+    expect(segments).toHaveLength(1);
+    expect(segments[0]).toMatchObject({ x1: 0, x2: 300, axis: 'h' });
+  });
+
+  it('keeps walls of different classes or past the gap tolerance apart', () => {
+    expect(cleanWallTopology([wall(0, 0, 100, 0), wall(90, 0, 200, 0, 'window')]).segments).toHaveLength(2);
+    expect(cleanWallTopology([wall(0, 0, 100, 0), wall(150, 0, 250, 0)]).segments).toHaveLength(2);
+  });
+
+  it('runs the horizontal wall to the outer face at an L corner', () => {
+    const { segments, snapped } = cleanWallTopology([wall(0, 0, 96, 0), wall(100, 4, 100, 200)]);
+    const h = segments.find((s) => s.axis === 'h')!;
+    const v = segments.find((s) => s.axis === 'v')!;
+    expect(snapped).toBe(2);
+    expect(h.x2).toBe(105);
+    expect(v.y1).toBe(5);
+  });
+
+  it('stops the stem of a T at the face of the through wall', () => {
+    const { segments } = cleanWallTopology([wall(0, 0, 200, 0), wall(100, 8, 100, 200)]);
+    const h = segments.find((s) => s.axis === 'h')!;
+    const v = segments.find((s) => s.axis === 'v')!;
+    expect([h.x1, h.x2]).toEqual([0, 200]);
+    expect(v.y1).toBe(5);
+  });
+
+  it('passes angled walls through untouched', () => {
+    const angled = wall(0, 0, 100, 100);
+    const { segments, merged, snapped } = cleanWallTopology([angled]);
+    expect(segments).toEqual([angled]);
+    expect(merged + snapped).toBe(0);
+  });
+});
+
+describe('plan wall coordinates', () => {
+  const plan: PlanJson = {
+    pages: [{
+      page_index: 0,
+      scale: `1/4" = 1'-0"`,
+      entities: {
+        walls: [
+          { geometry: { coordinates: { x1: 0, y1: 0, x2: 480, y2: 0 } } },
+          { geometry: { coordinates: [0, 0, 0, 480] } },
+          { geometry: {} },
+        ],
+      },
+    }],
+  };
+  const schema = FORMAT_LOADERS.find((loader) => loader.id === 'plan')!.schema!;
+
+  it('leaves array-form coordinates out of the schema check', () => {
+    const { fatal, diagnostics } = validateFormatSchema(plan, schema);
+    expect(fatal).toBe(false);
+    expect(diagnostics.map((d) => d.message)).toEqual([
+      'pages[0].entities.walls[2]: missing geometry.coordinates.x1, geometry.coordinates.y1, geometry.coordinates.x2, geometry.coordinates.y2',
+    ]);
+  });
+
+  it('reports array-form coordinates as skipped walls', () => {
+    const model = planToModel(plan, 'plan.json');
+    expect(model.walls).toHaveLength(1);
+    const skipped = model.metadata.issues.filter((issue) => issue.kind === 'skipped_wall');
+    expect(skipped).toHaveLength(1);
+    expect(skipped[0].message).toContain('pages[0].entities.walls[1]');
+  });
+});
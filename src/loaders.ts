@@ -0,0 +1,2430 @@
+import * as THREE from 'three';
+
+// ─── OLD FORMAT (walls[]) ────────────────────────────────────────────────────
+/** A detector box; doors and windows may also carry their size in feet. */
+export interface DetectionBox {
+  class?: string;
+  confidence?: number;
+  bbox?: { x1: number; y1: number; x2: number; y2: number };
+  height_ft?: number;
+  sill_ft?: number;
+}
+export interface WallData extends DetectionBox {
+  center?: { x: number; y: number };
+  area?: number;
+  // Optional detector hints, all in image pixels unless named otherwise
+  _thickness_px?: number;
+  _length_px?: number;
+  _angle_deg?: number;
+  _height_ft?: number;
+  centerline_image?: number[][];
+  polygon_image?: number[][];
+}
+export interface OldJsonData {
+  walls?: WallData[];
+  floors?: DetectionBox[];
+  ceilings?: DetectionBox[];
+  doors?: DetectionBox[];
+  windows?: DetectionBox[];
+}
+
+// ─── LINE FORMAT (walls with start / end) ───────────────────────────────────
+export interface LinePoint {
+  x: number;
+  y: number;
+}
+export interface LineWall {
+  start?: LinePoint;
+  end?: LinePoint;
+  height?: number;
+  room?: string;
+  id?: string | number;
+}
+export interface LineCutout {
+  type?: string;              // 'window'; anything else is a door
+  position?: LinePoint;
+  width?: number;
+  height?: number;
+  sill_height?: number;
+}
+export interface LineJsonData {
+  walls?: LineWall[];
+  cutouts?: LineCutout[];
+  units?: string;             // inches (default) / feet / meters
+  default_wall_height?: number;
+}
+
+// ─── NEW FORMAT (Paradigm Estimate) ─────────────────────────────────────────
+export interface NewRecord {
+  materialType: string;
+  settings: {
+    name?: string;
+    type?: string;
+    pitch?: string;
+    area?: number;
+    linear_total?: number;
+    board_size?: string;
+    oc_spacing?: string;
+    truss_size?: string;
+    direction?: string;
+    height?: string;
+    floor_level?: string;
+    bundle_floor_level?: string;
+    dimension?: string;
+    size?: string;
+    plies?: string;
+    width?: string;
+    [key: string]: unknown;
+  };
+  coordinates_real_world: [number, number][];
+  scale_factor_float: number;
+}
+export interface NewJsonData {
+  project_id: string;
+  records: NewRecord[];
+}
+
+// ─── Page-format (Plan) JSON ───────────────────────────────────────────────
+export interface PlanWallCoordinates {
+  x1: number; y1: number; x2: number; y2: number;
+}
+
+export interface PlanWall {
+  geometry?: { coordinates?: PlanWallCoordinates | number[] };
+  properties?: {
+    thickness_inches?: number; wall_height?: string | number; category?: string; floor_label?: string;
+    double_studs?: boolean; staggered_studs?: boolean; insulation?: boolean; fire_rated_sheathing?: boolean;
+    dimension_text?: string;
+  };
+  category?: string;
+}
+
+export interface PlanEntities {
+  walls?: PlanWall[];
+  windows_and_doors_floor_plans?: any;
+  doors?: any;
+  dimension_text?: any;
+  roofing?: any;
+}
+
+export interface PlanPage {
+  page_index?: number;
+  source_file_id?: string;
+  page_number_in_source_file?: number;
+  scale?: string | null;
+  dpi?: number;
+  page_class?: string;
+  legacy_page_classification?: {
+    PageScale?: string;
+    PageScaleText?: string;
+    Titles?: string[];
+    PrincipalTitles?: string[];
+  };
+  entities?: PlanEntities;
+}
+
+export interface PlanJson {
+  pages?: PlanPage[];
+  project_metadata?: Record<string, unknown>;
+  project_id?: string | number;
+}
+
+// ─── Wall assembly ───────────────────────────────────────────────────────────
+export interface WallAssembly {
+  doubleStuds: boolean;
+  staggeredStuds: boolean;
+  insulation: boolean;
+  fireRated: boolean;     // fire-rated sheathing on both faces
+}
+
+// ─── SCALE helpers ───────────────────────────────────────────────────────────
+const SCALE = 1 / 12; // inches → feet
+
+export const MATERIAL_COLORS: Record<string, number> = {
+  roof_system: 0xf97316,
+  eave_length: 0x22d3ee,
+  ridge_length: 0xa855f7,
+  hip_length: 0xfbbf24,
+  valley_length: 0x60a5fa,
+  gable_length: 0x4ade80,
+  wall: 0x94a3b8,
+  header: 0xb45309,
+  post: 0x78350f,
+  dropped_beam: 0xdc2626,
+  flush_beam: 0xea580c,
+  ridge_beam: 0x7c2d12,
+  floor_system: 0xca8a04,
+  floor_joist: 0xca8a04,
+  rim_board: 0x854d0e,
+  floor_truss_bracing: 0xa16207,
+  stairs: 0x0d9488,
+  floor_area: 0x475569,
+  garage_area: 0x6b7280,
+  porch_ceiling: 0xe7e5e4,
+  exterior_door: 0x7c3aed,
+  interior_door: 0xa78bfa,
+  door: 0x7c3aed,
+  window: 0x93c5fd,
+  siding: 0x9ca3af,
+  siding_starter: 0x374151,
+  trim: 0xf8fafc,
+  flashing: 0xcbd5e1,
+  post_wrap: 0xe5e7eb,
+  lf_fivedotfive_decking: 0xa47551,
+  lf_railing: 0xd6d3d1,
+  ledger: 0x65a30d,
+  cantilever_closure: 0x57534e,
+  roof_facet: 0xf97316,
+  default: 0xffffff,
+};
+
+export const LABEL_MAP: Record<string, string> = {
+  roof_system: 'Roof Panel / Rafter',
+  roof_facet: 'Roof Facet',
+  eave_length: 'Eave',
+  ridge_length: 'Ridge',
+  hip_length: 'Hip',
+  valley_length: 'Valley',
+  gable_length: 'Gable',
+  wall: 'Wall',
+  header: 'Header',
+  post: 'Post',
+  dropped_beam: 'Dropped Beam',
+  flush_beam: 'Flush Beam',
+  ridge_beam: 'Ridge Beam',
+  floor_joist: 'Floor Joist / Truss',
+  rim_board: 'Rim Board',
+  floor_truss_bracing: 'Floor Truss Bracing',
+  stairs: 'Stairs',
+  floor_area: 'Floor Slab',
+  garage_area: 'Garage Slab',
+  porch_ceiling: 'Porch Ceiling',
+  exterior_door: 'Exterior Door',
+  interior_door: 'Interior Door',
+  door: 'Door',
+  window: 'Window',
+  siding: 'Siding',
+  siding_starter: 'Siding Starter',
+  trim: 'Trim',
+  flashing: 'Flashing',
+  post_wrap: 'Post Wrap',
+  lf_fivedotfive_decking: 'Deck Boards (5.5")',
+  deck_board: 'Deck Board',
+  lf_railing: 'Deck Railing',
+  railing_post: 'Railing Post',
+  baluster: 'Baluster',
+  ledger: 'Ledger',
+  cantilever_closure: 'Cantilever Closure',
+};
+
+// ─── ELEVATION helpers ───────────────────────────────────────────────────────
+const ELEVATIONS: Record<string, number> = {
+  roof_system: 0,
+  eave_length: 0.05,
+  valley_length: -0.05,
+  hip_length: 0.15,
+  ridge_length: 0.3,
+  gable_length: 0.1,
+  default: 0,
+};
+
+// Default elevations for well-known levels; the levels panel overrides them per file
+const FLOOR_ELEVATIONS: Record<string, number> = {
+  'BASEMENT': -9.0,
+  'GARAGE': -1.0,
+  'MAIN FLOOR': 0.0,
+  'PORCH WALL': -0.5,
+  'SECOND FLOOR': 9.0,
+  'default': 0.0,
+};
+
+// ─── Plan helpers ───────────────────────────────────────────────────────────
+/**
+ * Feet from architectural text: `9'-1 1/2"`, `12'`, `48"`, `2.67'`, `3-6"`
+ * or a plain number (feet). The dash between feet and inches is a separator,
+ * and OCR noise around the value (`: 14'-0"`, `< 3'-0 3/4" ⇒`) is ignored.
+ */
+export function parseFeetInches(raw: unknown, fallback = 9): number {
+  if (typeof raw === 'number' && Number.isFinite(raw)) return raw;
+  if (typeof raw !== 'string') return fallback;
+
+  const text = raw.trim().replace(/[′’]/g, "'").replace(/[″”]/g, '"');
+  if (!text) return fallback;
+  if (/^\d+(\.\d+)?$/.test(text)) return parseFloat(text) || fallback;
+
+  // Feet: `12'` / `12 ft`, or the bare `3-6"` shorthand
+  let feet = 0;
+  let rest = text;
+  const feetMatch = text.match(/(\d+(?:\.\d+)?)\s*(?:'|ft\b)/i) || text.match(/(\d+)\s*-+\s*(?=\d[^'"]*")/);
+  if (feetMatch) {
+    feet = parseFloat(feetMatch[1]);
+    rest = text.slice((feetMatch.index ?? 0) + feetMatch[0].length).replace(/^[\s'-]+/, '');
+  }
+
+  // Inches with an optional fraction; after the feet the inch mark is optional
+  const inchPattern = feetMatch
+    ? /^(\d+(?:\.\d+)?)?\s*(?:(\d+)\/(\d+))?/
+    : /(\d+(?:\.\d+)?)?\s*(?:(\d+)\/(\d+))?\s*(?:"|in\b)/i;
+  const inchMatch = rest.match(inchPattern);
+  let inches = 0;
+  if (inchMatch) {
+    inches = (inchMatch[1] ? parseFloat(inchMatch[1]) : 0)
+      + (inchMatch[2] && +inchMatch[3] ? +inchMatch[2] / +inchMatch[3] : 0);
+  }
+
+  return feet + inches / 12 || fallback;
+}
+
+function normalizePlanLabel(category?: string): string {
+  if (!category) return 'Wall';
+  const c = category.toLowerCase();
+  if (c.includes('exterior')) return 'Exterior Wall';
+  if (c.includes('interior')) return 'Interior Wall';
+  if (c.includes('perimeter')) return 'Perimeter Wall';
+  if (c.includes('foundation')) return 'Foundation Wall';
+  if (c.includes('knee')) return 'Knee Wall';
+  return 'Wall';
+}
+
+export type OpeningBox = { xmin: number; xmax: number; ymin: number; ymax: number };
+
+// ─── Plan page levels ────────────────────────────────────────────────────────
+// Storeys a plan page can belong to, matched against the walls' floor_label
+// first and then the sheet titles. Main floor is the datum (elevation 0).
+interface PlanLevel {
+  id: string;
+  label: string;
+  order: number;        // stacking order; 0 = main floor
+  elevation: number;    // feet, bottom of the storey's walls
+  height: number;       // feet, tallest wall on the level
+}
+
+const PLAN_LEVEL_DEFS: Array<{ id: string; label: string; order: number; pattern: RegExp }> = [
+  { id: 'BASEMENT', label: 'Basement', order: -1, pattern: /BASEMENT|FOUNDATION|CELLAR|CONC\.?\s*FLOOR/ },
+  { id: 'THIRD FLOOR', label: 'Third Floor', order: 2, pattern: /\bTHIRD\b|\b3RD\b/ },
+  { id: 'SECOND FLOOR', label: 'Second Floor', order: 1, pattern: /\bSECOND\b|\b2ND\b|\bUPPER\b/ },
+  { id: 'MAIN FLOOR', label: 'Main Floor', order: 0, pattern: /\bFIRST\b|\b1ST\b|\bMAIN\b|\bGROUND\b/ },
+];
+
+export const ROOF_PLAN_LEVEL = 'ROOF';
+
+/**
+ * Level id for a plan page from `floor_label`, then `legacy_page_classification`
+ * titles; wall-less roof sheets go to ROOF_PLAN_LEVEL, anything else to the main floor.
+ */
+function classifyPlanPageLevel(page: PlanPage): string {
+  if (String(page.page_class || '').toUpperCase() === 'ROOF' && !page.entities?.walls?.length) return ROOF_PLAN_LEVEL;
+  const floorLabels = (page.entities?.walls || [])
+    .map((w) => w.properties?.floor_label)
+    .filter((l): l is string => typeof l === 'string' && l.trim() !== '');
+  const legacy = page.legacy_page_classification || {};
+  const titles = [...(legacy.PrincipalTitles || []), ...(legacy.Titles || [])].filter((t) => typeof t === 'string');
+
+  for (const text of [floorLabels.join(' '), titles.join(' ')]) {
+    const upper = text.toUpperCase();
+    if (!upper.trim()) continue;
+    const def = PLAN_LEVEL_DEFS.find((d) => d.pattern.test(upper));
+    if (def) return def.id;
+  }
+  return 'MAIN FLOOR';
+}
+
+/**
+ * Default storey elevations from wall heights: the lowest above-grade level
+ * sits at 0, upper levels stack on the tallest wall of the one below, and
+ * below-grade levels hang beneath it.
+ */
+function stackPlanLevels(heights: Map<string, number>): Map<string, PlanLevel> {
+  const levels = PLAN_LEVEL_DEFS
+    .filter((d) => heights.has(d.id))
+    .map((d) => ({ id: d.id, label: d.label, order: d.order, elevation: 0, height: heights.get(d.id) as number }))
+    .sort((a, b) => a.order - b.order);
+
+  const above = levels.filter((l) => l.order >= 0);
+  const below = levels.filter((l) => l.order < 0).reverse();
+  let top = 0;
+  above.forEach((l) => {
+    l.elevation = top;
+    top += l.height;
+  });
+  let bottom = 0;
+  below.forEach((l) => {
+    bottom -= l.height;
+    l.elevation = bottom;
+  });
+  return new Map(levels.map((l) => [l.id, l]));
+}
+
+// ─── Plan page scale ─────────────────────────────────────────────────────────
+// Plan coordinates are raster pixels; a sheet drawn at 1/4" = 1'-0" and
+// scanned at 300 dpi has 75 px per foot. Scales outside this range of paper
+// inches per foot are OCR noise (e.g. "12\"=1'").
+const MIN_PAPER_INCHES_PER_FOOT = 1 / 32;
+const MAX_PAPER_INCHES_PER_FOOT = 3;
+
+interface PlanPageScale {
+  feetPerUnit: number;
+  label: string;        // scale as read, e.g. `1/4" = 1'-0"`
+  fallback: boolean;    // true when no usable scale/DPI was found
+}
+
+/** Paper inches per real foot from text like `1/4" = 1'-0"` or `SCALE:3/4"=1'`. */
+export function parseScaleText(raw: unknown): number | null {
+  if (typeof raw !== 'string') return null;
+  const text = raw.replace(/^\s*SCALE\s*:?\s*/i, '');
+  const eq = text.indexOf('=');
+  if (eq < 0) return null;
+
+  const paper = text.slice(0, eq).trim().match(/^(\d+(?:\.\d+)?)(?:\s*\/\s*(\d+))?\s*"/);
+  if (!paper) return null;
+  const paperIn = paper[2] ? parseFloat(paper[1]) / parseFloat(paper[2]) : parseFloat(paper[1]);
+  const realFt = parseFeetInches(text.slice(eq + 1), NaN);
+  if (!Number.isFinite(paperIn) || !Number.isFinite(realFt) || realFt <= 0) return null;
+
+  const perFoot = paperIn / realFt;
+  return perFoot >= MIN_PAPER_INCHES_PER_FOOT && perFoot <= MAX_PAPER_INCHES_PER_FOOT ? perFoot : null;
+}
+
+/** Paper inches per foot from the legacy `PageScale` ratio ("1:4" → 1/4" per foot). */
+function parseScaleRatio(raw: unknown): number | null {
+  if (typeof raw !== 'string') return null;
+  const match = raw.trim().match(/^(\d+(?:\.\d+)?)\s*:\s*(\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+  const perFoot = parseFloat(match[1]) / parseFloat(match[2]);
+  return perFoot >= MIN_PAPER_INCHES_PER_FOOT && perFoot <= MAX_PAPER_INCHES_PER_FOOT ? perFoot : null;
+}
+
+/**
+ * Feet per plan unit for a page: `scale`, then `PageScaleText`, then
+ * `PageScale`, combined with the page DPI. Without both, plan units are
+ * treated as inches (SCALE) and the result is flagged as a fallback.
+ */
+function resolvePlanPageScale(page: PlanPage): PlanPageScale {
+  const legacy = page.legacy_page_classification || {};
+  const dpi = Number(page.dpi);
+  const candidates: Array<[unknown, (raw: unknown) => number | null]> = [
+    [page.scale, parseScaleText],
+    [legacy.PageScaleText, parseScaleText],
+    [legacy.PageScale, parseScaleRatio],
+  ];
+  if (Number.isFinite(dpi) && dpi > 0) {
+    for (const [raw, parse] of candidates) {
+      const perFoot = parse(raw);
+      if (perFoot) return { feetPerUnit: 1 / (perFoot * dpi), label: String(raw), fallback: false };
+    }
+  }
+  return { feetPerUnit: SCALE, label: '1 unit = 1"', fallback: true };
+}
+
+function toOpeningBox(box: any): OpeningBox | null {
+  if (!box) return null;
+  if (Array.isArray(box) && box.length === 4 && box.every((v) => typeof v === 'number')) {
+    const [xmin, ymin, xmax, ymax] = box;
+    if ([xmin, ymin, xmax, ymax].some((v) => !Number.isFinite(v))) return null;
+    return { xmin, xmax, ymin, ymax };
+  }
+
+  if (Array.isArray(box) && box.length === 4 && Array.isArray(box[0])) {
+    const xs: number[] = [];
+    const ys: number[] = [];
+    box.forEach((pt: any) => {
+      if (Array.isArray(pt) && pt.length >= 2) {
+        xs.push(Number(pt[0]));
+        ys.push(Number(pt[1]));
+      }
+    });
+    if (!xs.length || !ys.length) return null;
+    if (!xs.every(Number.isFinite) || !ys.every(Number.isFinite)) return null;
+    return { xmin: Math.min(...xs), xmax: Math.max(...xs), ymin: Math.min(...ys), ymax: Math.max(...ys) };
+  }
+  return null;
+}
+
+// ─── Plan opening helpers ────────────────────────────────────────────────────
+export type OpeningKind = 'door' | 'window';
+
+interface PlanOpening extends OpeningBox {
+  kind: OpeningKind;
+  width: number | null;   // from a size callout (feet), else the symbol size
+  height: number | null;
+}
+
+// windows_and_doors_floor_plans detector classes. The detector output carries
+// no class names, so these were read off the symbols each id marks in the
+// bundled plans (assets/Sumanthfile, Windows-Doors-Floorplans 1.82 and 1.87):
+// swing and slider symbols are doors, thin in-wall symbols are windows.
+// Ids in neither table are typed like unclassified symbols and reported.
+const PLAN_OPENING_CLASSES: Record<number, OpeningKind> = {
+  1: 'door',     // double / bifold
+  2: 'door',     // sliding / patio
+  3: 'door',     // single swing
+  4: 'door',     // single swing, mirrored
+  5: 'window',
+  8: 'window',   // wide / picture
+  9: 'window',   // narrow
+  11: 'door',    // garage / overhead
+};
+const PLAN_TAG_CLASSES = new Set([12, 13]); // door and window tags: callout text, not openings
+const WINDOW_SYMBOL_ASPECT = 0.35;       // unclassified symbols thinner than this are windows
+
+/** Size callout → feet: "3068" (3'0" x 6'8"), "2'-8\" x 5'-0\"", "36 x 60" (inches). */
+function parseOpeningSizeText(raw: unknown): { width: number; height: number } | null {
+  const text = String(raw ?? '').trim();
+  const code = text.match(/^(\d)(\d)(\d)(\d)\b/);
+  if (code) {
+    const width = +code[1] + +code[2] / 12;
+    const height = +code[3] + +code[4] / 12;
+    return width > 0 && height > 0 ? { width, height } : null;
+  }
+  const pair = text.split(/\s*[x×]\s*/i);
+  if (pair.length !== 2) return null;
+  const dims = pair.map((part) => {
+    if (/^\d+(\.\d+)?$/.test(part)) return parseFloat(part) / 12;
+    return parseFeetInches(part, NaN);
+  });
+  if (!dims.every((d) => Number.isFinite(d) && d > 0)) return null;
+  return { width: dims[0], height: dims[1] };
+}
+
+function boxesOverlap(a: OpeningBox, b: OpeningBox): boolean {
+  return a.xmin <= b.xmax && b.xmin <= a.xmax && a.ymin <= b.ymax && b.ymin <= a.ymax;
+}
+
+export function readWallAssembly(props: PlanWall['properties']): WallAssembly {
+  return {
+    doubleStuds: props?.double_studs === true,
+    staggeredStuds: props?.staggered_studs === true,
+    insulation: props?.insulation === true,
+    fireRated: props?.fire_rated_sheathing === true,
+  };
+}
+
+/** Length in feet from a dimension string; size callouts ("3'-0\" x 6'-8\"") and spacing notes ("@ 16\"") are not lengths. */
+export function parseDimensionText(raw: unknown): number | null {
+  const text = String(raw ?? '').trim();
+  if (!text || text.startsWith('@') || /\d\s*["']?\s*[x×]\s*\d/i.test(text)) return null;
+  const feet = parseFeetInches(text, NaN);
+  return Number.isFinite(feet) && feet > 0 ? feet : null;
+}
+
+/** Page-level callout nearest a wall, within a quarter of its length and alongside its span. */
+function nearestDimensionCallout(
+  callouts: Array<{ box: OpeningBox; text: string }>,
+  x1: number, y1: number, x2: number, y2: number
+): string | null {
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const lenSq = dx * dx + dy * dy;
+  if (lenSq < 1e-6) return null;
+  const reach = Math.sqrt(lenSq) * 0.25;
+
+  let best: string | null = null;
+  let bestDist = Infinity;
+  callouts.forEach(({ box, text }) => {
+    const px = (box.xmin + box.xmax) / 2;
+    const py = (box.ymin + box.ymax) / 2;
+    const t = ((px - x1) * dx + (py - y1) * dy) / lenSq;
+    if (t < 0 || t > 1) return;
+    const dist = Math.hypot(x1 + dx * t - px, y1 + dy * t - py);
+    if (dist < reach && dist < bestDist) {
+      bestDist = dist;
+      best = text;
+    }
+  });
+  return best;
+}
+
+// ─── Spatial index helpers ───────────────────────────────────────────────────
+/**
+ * Uniform grid over 2D boxes. `query` returns the items whose box overlaps the
+ * given one, so cutouts are only tested against the walls around them.
+ */
+export function createBoxIndex<T>(items: Array<{ box: OpeningBox; value: T }>, cellSize: number): (box: OpeningBox) => T[] {
+  const size = cellSize > 0 && Number.isFinite(cellSize) ? cellSize : 1;
+  const cells = new Map<string, number[]>();
+  const cellRange = (box: OpeningBox) => ({
+    i0: Math.floor(box.xmin / size), i1: Math.floor(box.xmax / size),
+    j0: Math.floor(box.ymin / size), j1: Math.floor(box.ymax / size),
+  });
+
+  items.forEach(({ box }, idx) => {
+    const { i0, i1, j0, j1 } = cellRange(box);
+    for (let i = i0; i <= i1; i++) {
+      for (let j = j0; j <= j1; j++) {
+        const key = `${i},${j}`;
+        const bucket = cells.get(key);
+        if (bucket) bucket.push(idx);
+        else cells.set(key, [idx]);
+      }
+    }
+  });
+
+  return (box: OpeningBox) => {
+    const { i0, i1, j0, j1 } = cellRange(box);
+    const seen = new Set<number>();
+    for (let i = i0; i <= i1; i++) {
+      for (let j = j0; j <= j1; j++) {
+        cells.get(`${i},${j}`)?.forEach((idx) => {
+          if (!seen.has(idx) && boxesOverlap(items[idx].box, box)) seen.add(idx);
+        });
+      }
+    }
+    return Array.from(seen).sort((a, b) => a - b).map((idx) => items[idx].value);
+  };
+}
+
+// ─── Wall join helpers ───────────────────────────────────────────────────────
+// Old-format walls as centerlines in image pixels. Axis-aligned walls are
+// cleaned up; walls at other angles pass through untouched.
+export interface JoinSegment {
+  x1: number; y1: number; x2: number; y2: number;  // h: x1 < x2, y1 = y2; v: y1 < y2, x1 = x2
+  thickness: number;
+  axis: 'h' | 'v' | null;
+  kind: string;                                   // only segments of one class merge
+  sources: WallData[];                            // detector walls folded into this segment
+}
+
+const WALL_JOIN_TOLERANCE_PX = 12;
+
+/** Collinear segments of the same class that overlap or nearly touch become one. */
+function mergeCollinearSegments(segments: JoinSegment[], tol: number): { segments: JoinSegment[]; merged: number } {
+  const out: JoinSegment[] = segments.filter((s) => !s.axis);
+  let merged = 0;
+
+  (['h', 'v'] as const).forEach((axis) => {
+    const across = (s: JoinSegment) => (axis === 'h' ? s.y1 : s.x1);
+    const from = (s: JoinSegment) => (axis === 'h' ? s.x1 : s.y1);
+    const to = (s: JoinSegment) => (axis === 'h' ? s.x2 : s.y2);
+    const lines = new Map<string, JoinSegment[][]>();
+
+    // Group by class, then into lines whose centerlines lie within half a wall of each other
+    segments.filter((s) => s.axis === axis).sort((a, b) => across(a) - across(b)).forEach((seg) => {
+      const kindLines = lines.get(seg.kind) ?? [];
+      lines.set(seg.kind, kindLines);
+      const line = kindLines.find((l) => Math.abs(across(l[l.length - 1]) - across(seg)) <= Math.max(seg.thickness, l[0].thickness) / 2);
+      if (line) line.push(seg);
+      else kindLines.push([seg]);
+    });
+
+    lines.forEach((kindLines) => kindLines.forEach((line) => {
+      line.sort((a, b) => from(a) - from(b));
+      let run: JoinSegment[] = [];
+      let runEnd = -Infinity;
+      const flush = () => {
+        if (!run.length) return;
+        const lo = Math.min(...run.map(from));
+        const hi = Math.max(...run.map(to));
+        const weight = run.reduce((sum, s) => sum + (to(s) - from(s)), 0) || 1;
+        const at = run.reduce((sum, s) => sum + across(s) * (to(s) - from(s)), 0) / weight;
+        out.push({
+          x1: axis === 'h' ? lo : at, y1: axis === 'h' ? at : lo,
+          x2: axis === 'h' ? hi : at, y2: axis === 'h' ? at : hi,
+          thickness: Math.max(...run.map((s) => s.thickness)),
+          axis,
+          kind: run[0].kind,
+          sources: run.flatMap((s) => s.sources),
+        });
+        merged += run.length - 1;
+      };
+      line.forEach((seg) => {
+        if (run.length && from(seg) > runEnd + tol) {
+          flush();
+          run = [];
+          runEnd = -Infinity;
+        }
+        run.push(seg);
+        runEnd = Math.max(runEnd, to(seg));
+      });
+      flush();
+    }));
+  });
+  return { segments: out, merged };
+}
+
+/**
+ * Moves wall ends onto the walls they meet. At an L the horizontal wall runs
+ * to the outer face and the vertical one stops at its face; at a T the stem
+ * stops at the face of the through wall. Corners are then counted once.
+ */
+function joinSegmentEnds(segments: JoinSegment[], tol: number): number {
+  const hs = segments.filter((s) => s.axis === 'h');
+  const vs = segments.filter((s) => s.axis === 'v');
+  let snapped = 0;
+  const move = (seg: JoinSegment, key: 'x1' | 'x2' | 'y1' | 'y2', value: number) => {
+    const next = { ...seg, [key]: value };
+    const len = seg.axis === 'h' ? next.x2 - next.x1 : next.y2 - next.y1;
+    if (len < tol || Math.abs(seg[key] - value) < 1e-6) return;
+    seg[key] = value;
+    snapped++;
+  };
+
+  hs.forEach((h) => {
+    ([['x1', -1], ['x2', 1]] as const).forEach(([key, sign]) => {
+      const end = h[key];
+      let best: JoinSegment | null = null;
+      vs.forEach((v) => {
+        if (Math.abs(v.x1 - end) > tol + v.thickness / 2) return;
+        if (h.y1 < v.y1 - tol - h.thickness / 2 || h.y1 > v.y2 + tol + h.thickness / 2) return;
+        if (!best || Math.abs(v.x1 - end) < Math.abs(best.x1 - end)) best = v;
+      });
+      const v = best as JoinSegment | null;
+      if (!v) return;
+      const atCorner = Math.abs(h.y1 - v.y1) <= tol + h.thickness / 2 || Math.abs(h.y1 - v.y2) <= tol + h.thickness / 2;
+      move(h, key, atCorner ? v.x1 + sign * v.thickness / 2 : v.x1 - sign * v.thickness / 2);
+    });
+  });
+
+  vs.forEach((v) => {
+    ([['y1', -1], ['y2', 1]] as const).forEach(([key, sign]) => {
+      const end = v[key];
+      let best: JoinSegment | null = null;
+      hs.forEach((h) => {
+        if (Math.abs(h.y1 - end) > tol + h.thickness / 2) return;
+        if (v.x1 < h.x1 - tol || v.x1 > h.x2 + tol) return;
+        if (!best || Math.abs(h.y1 - end) < Math.abs(best.y1 - end)) best = h;
+      });
+      const h = best as JoinSegment | null;
+      if (h) move(v, key, h.y1 - sign * h.thickness / 2);
+    });
+  });
+  return snapped;
+}
+
+export function cleanWallTopology(segments: JoinSegment[], tol = WALL_JOIN_TOLERANCE_PX): { segments: JoinSegment[]; merged: number; snapped: number } {
+  const { segments: merged, merged: mergedCount } = mergeCollinearSegments(segments, tol);
+  const snapped = joinSegmentEnds(merged, tol);
+  return { segments: merged, merged: mergedCount, snapped };
+}
+
+export type Vec2 = [number, number];
+
+// ─── Load diagnostics ────────────────────────────────────────────────────────
+export type DiagnosticKind = 'schema' | 'skipped_wall' | 'skipped_opening' | 'missing_height' | 'unknown_material' | 'unknown_class' | 'nan_coordinates' | 'empty_page';
+
+export interface LoadDiagnostic {
+  kind: DiagnosticKind;
+  message: string;
+  /** Rendered element the entry zooms to, when there is one */
+  target?: THREE.Object3D;
+}
+
+// `coord` is a finite number (or numeric string), `points` a list of finite [x, y] pairs
+export type SchemaField = 'array' | 'object' | 'string' | 'coord' | 'points';
+
+export interface FormatSchema {
+  name: string;
+  root: Record<string, SchemaField>;
+  /**
+   * Per-item checks; each `[]` in a path walks into an array's elements.
+   * Items matching `skipWhen` are left to the loader, which reports them itself.
+   */
+  items: Array<{ path: string; fields: Record<string, SchemaField>; skipWhen?: Record<string, SchemaField> }>;
+}
+
+type SceneKind = 'plan' | 'records' | 'lines' | 'boxes';
+
+const FORMAT_SCHEMAS: Record<SceneKind, FormatSchema> = {
+  plan: {
+    name: 'plan pages',
+    root: { pages: 'array' },
+    items: [{
+      path: 'pages[].entities.walls[]',
+      fields: {
+        'geometry.coordinates.x1': 'coord', 'geometry.coordinates.y1': 'coord',
+        'geometry.coordinates.x2': 'coord', 'geometry.coordinates.y2': 'coord',
+      },
+      // Array-form coordinates are skipped by planToModel as an unsupported shape
+      skipWhen: { 'geometry.coordinates': 'array' },
+    }],
+  },
+  records: {
+    name: 'estimate records',
+    root: { records: 'array' },
+    items: [{ path: 'records[]', fields: { materialType: 'string', coordinates_real_world: 'points' } }],
+  },
+  lines: {
+    name: 'wall lines',
+    root: { walls: 'array' },
+    items: [
+      { path: 'walls[]', fields: { 'start.x': 'coord', 'start.y': 'coord', 'end.x': 'coord', 'end.y': 'coord' } },
+      { path: 'cutouts[]', fields: { 'position.x': 'coord', 'position.y': 'coord' } },
+    ],
+  },
+  boxes: {
+    name: 'wall boxes',
+    root: { walls: 'array' },
+    items: [{ path: 'walls[]', fields: { 'bbox.x1': 'coord', 'bbox.y1': 'coord', 'bbox.x2': 'coord', 'bbox.y2': 'coord' } }],
+  },
+};
+
+const SCHEMA_FIELD_DESCRIPTIONS: Record<SchemaField, string> = {
+  array: 'an array',
+  object: 'an object',
+  string: 'a string',
+  coord: 'a finite number',
+  points: 'a list of finite [x, y] points',
+};
+
+/** Whether the records renderer has a colour or a dedicated builder for a materialType. */
+function isKnownMaterialType(mt: string): boolean {
+  return mt in MATERIAL_COLORS || mt in FACADE_LAYERS || mt === 'stairs'
+    || [ROOF_LINE_TYPES, STRUCTURAL_MEMBER_TYPES, FLOOR_FRAMING_TYPES, DOOR_RECORD_TYPES, DECK_RECORD_TYPES, AREA_SLAB_TYPES].some((set) => set.has(mt));
+}
+
+function readSchemaPath(obj: any, path: string): unknown {
+  return path.split('.').reduce((value: any, key) => (value == null ? undefined : value[key]), obj);
+}
+
+function schemaFieldOk(value: unknown, field: SchemaField): boolean {
+  const finite = (v: unknown) => (typeof v === 'number' || (typeof v === 'string' && v.trim() !== '')) && Number.isFinite(Number(v));
+  switch (field) {
+    case 'array': return Array.isArray(value);
+    case 'object': return !!value && typeof value === 'object' && !Array.isArray(value);
+    case 'string': return typeof value === 'string';
+    case 'coord': return finite(value);
+    case 'points': return Array.isArray(value) && value.every((pt) => Array.isArray(pt) && pt.length >= 2 && finite(pt[0]) && finite(pt[1]));
+  }
+}
+
+/** Elements at an item path such as `pages[].entities.walls[]`, labelled with where they sit. */
+function schemaItems(data: any, path: string): Array<{ item: any; where: string }> {
+  let items: Array<{ item: any; where: string }> = [{ item: data, where: '' }];
+  path.split('[]').filter(Boolean).forEach((part) => {
+    const key = part.replace(/^\./, '');
+    items = items.flatMap(({ item, where }) => {
+      const list = readSchemaPath(item, key);
+      const at = where ? `${where}.${key}` : key;
+      return Array.isArray(list) ? list.map((child, i) => ({ item: child, where: `${at}[${i}]` })) : [];
+    });
+  });
+  return items;
+}
+
+/** Checks data against a format schema; a root mismatch is fatal, item problems are warnings. */
+export function validateFormatSchema(data: any, schema: FormatSchema): { fatal: boolean; diagnostics: LoadDiagnostic[] } {
+  const diagnostics: LoadDiagnostic[] = [];
+  let fatal = false;
+  Object.entries(schema.root).forEach(([key, field]) => {
+    if (schemaFieldOk(readSchemaPath(data, key), field)) return;
+    fatal = true;
+    diagnostics.push({ kind: 'schema', message: `${schema.name}: \`${key}\` must be ${SCHEMA_FIELD_DESCRIPTIONS[field]}` });
+  });
+  if (fatal) return { fatal, diagnostics };
+
+  schema.items.forEach(({ path, fields, skipWhen }) => {
+    schemaItems(data, path).forEach(({ item, where }) => {
+      if (skipWhen && Object.entries(skipWhen).every(([key, field]) => schemaFieldOk(readSchemaPath(item, key), field))) return;
+      // One entry per item, listing every field that failed
+      const missing: string[] = [];
+      const invalid: string[] = [];
+      let badCoordinates = false;
+      Object.entries(fields).forEach(([key, field]) => {
+        const value = readSchemaPath(item, key);
+        if (schemaFieldOk(value, field)) return;
+        if (value === undefined || value === null) {
+          missing.push(key);
+        } else {
+          invalid.push(`${key} is not ${SCHEMA_FIELD_DESCRIPTIONS[field]}`);
+          badCoordinates ||= field === 'coord' || field === 'points';
+        }
+      });
+      if (!missing.length && !invalid.length) return;
+      const problems = [...(missing.length ? [`missing ${missing.join(', ')}`] : []), ...invalid];
+      diagnostics.push({ kind: badCoordinates && !missing.length ? 'nan_coordinates' : 'schema', message: `${where}: ${problems.join('; ')}` });
+    });
+  });
+  return { fatal, diagnostics };
+}
+
+// ─── Format loaders ──────────────────────────────────────────────────────────
+// A loader converts one JSON dialect into a BuildingModel (see "Building
+// model"); the viewer builds every model the same way.
+export interface FormatLoader {
+  id: string;
+  /** Shown in diagnostics and load errors */
+  name: string;
+  /** Checked against the raw JSON before `load`; a root mismatch aborts the load */
+  schema?: FormatSchema;
+  detect(data: any): boolean;
+  /** Throws when the data holds nothing to build */
+  load(data: any, fileName: string): BuildingModel;
+}
+
+// Checked in order; the first loader whose `detect` accepts the data wins
+export const FORMAT_LOADERS: FormatLoader[] = [
+  {
+    id: 'plan',
+    name: 'plan pages',
+    schema: FORMAT_SCHEMAS.plan,
+    detect: (data) => Array.isArray(data?.pages) && data.pages.some(hasPlanEntities),
+    load: planToModel,
+  },
+  {
+    id: 'records',
+    name: 'estimate records',
+    schema: FORMAT_SCHEMAS.records,
+    detect: (data) => Array.isArray(data?.records),
+    load: recordsToModel,
+  },
+  {
+    id: 'lines',
+    name: 'wall lines',
+    schema: FORMAT_SCHEMAS.lines,
+    detect: (data) => Array.isArray(data?.walls) && data.walls.length > 0 && !!data.walls[0].start && !!data.walls[0].end,
+    load: linesToModel,
+  },
+  {
+    id: 'boxes',
+    name: 'wall boxes',
+    schema: FORMAT_SCHEMAS.boxes,
+    detect: (data) => Array.isArray(data?.walls),
+    load: boxesToModel,
+  },
+];
+
+/**
+ * Adds a loader for another JSON dialect. Registered loaders are tried before
+ * the built-in ones, and registering an existing id replaces that loader.
+ */
+export function registerFormatLoader(loader: FormatLoader) {
+  const existing = FORMAT_LOADERS.findIndex((l) => l.id === loader.id);
+  if (existing >= 0) FORMAT_LOADERS.splice(existing, 1);
+  FORMAT_LOADERS.unshift(loader);
+}
+
+export function findFormatLoader(data: any): FormatLoader | null {
+  return FORMAT_LOADERS.find((loader) => loader.detect(data)) ?? null;
+}
+
+// ─── Plan roof helpers ───────────────────────────────────────────────────────
+// Roof-Classification edge classes (EdgesOnly.class_ids), drawn with the
+// colour and label of the matching record-format roof line.
+const ROOF_EDGE_CLASSES: Record<number, string> = {
+  0: 'eave_length',
+  1: 'ridge_length',
+  2: 'gable_length',   // rake
+  3: 'hip_length',
+  4: 'valley_length',
+};
+
+/** Rise per 12 from "8 : 12", "8/12" or "8"; null when unreadable. */
+function parseRoofPitch(raw: unknown): number | null {
+  const m = String(raw ?? '').match(/(\d+(?:\.\d+)?)\s*(?:[:/]\s*(\d+(?:\.\d+)?))?/);
+  if (!m) return null;
+  const rise = parseFloat(m[1]);
+  const run = m[2] ? parseFloat(m[2]) : 12;
+  return run > 0 && Number.isFinite(rise) ? (rise * 12) / run : null;
+}
+
+/** Convex hull of plan points, counter-clockwise (monotone chain). */
+function convexHull2D(points: THREE.Vector2[]): THREE.Vector2[] {
+  const pts = points.slice().sort((p, q) => p.x - q.x || p.y - q.y);
+  if (pts.length < 3) return pts;
+  const cross = (o: THREE.Vector2, a: THREE.Vector2, b: THREE.Vector2) =>
+    (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+  const lower: THREE.Vector2[] = [];
+  const upper: THREE.Vector2[] = [];
+  pts.forEach((p) => {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+    lower.push(p);
+  });
+  pts.slice().reverse().forEach((p) => {
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+    upper.push(p);
+  });
+  return lower.slice(0, -1).concat(upper.slice(0, -1));
+}
+
+/**
+ * Chains a facet's edges end to end (corners closer than `tol` merge) into
+ * a closed outline. Detected edges often stop short of each other, so when
+ * they do not close a loop the outline is the hull of their corners, which
+ * is right for the usual convex (gable, hip, shed) facets.
+ */
+function chainRoofFacet(segments: Array<[THREE.Vector2, THREE.Vector2]>, tol: number): THREE.Vector2[] {
+  const corners: THREE.Vector2[] = [];
+  const cornerOf = (p: THREE.Vector2): number => {
+    const found = corners.findIndex((c) => c.distanceTo(p) < tol);
+    if (found >= 0) return found;
+    corners.push(p.clone());
+    return corners.length - 1;
+  };
+  const links = segments
+    .map(([a, b]) => [cornerOf(a), cornerOf(b)] as [number, number])
+    .filter(([a, b]) => a !== b);
+  if (corners.length < 3) return [];
+
+  if (links.length) {
+    const used = new Set<number>([0]);
+    const loop = [links[0][0], links[0][1]];
+    for (;;) {
+      const current = loop[loop.length - 1];
+      const next = links.findIndex(([a, b], i) => !used.has(i) && (a === current || b === current));
+      if (next < 0) break;
+      used.add(next);
+      const [a, b] = links[next];
+      const other = a === current ? b : a;
+      if (other === loop[0]) {
+        if (loop.length >= 3) return loop.map((i) => corners[i]);
+        break;
+      }
+      loop.push(other);
+    }
+  }
+
+  return convexHull2D(corners);
+}
+
+// ─── Roof plane helpers ─────────────────────────────────────────────────────
+interface RoofPlane {
+  pts: [number, number][];  // world-space (x, z) outline
+  axis: 'x' | 'z';          // plan axis the slope runs along
+  lowCoord: number;         // axis coordinate of the eave (low) side
+  sign: 1 | -1;             // +1 when the roof rises towards +axis
+  run: number;              // horizontal extent along the axis (feet)
+  slope: number;            // rise per foot of run (pitch / 12)
+  baseElev: number;         // eave elevation (wall top)
+}
+
+/**
+ * Builds a tilted roof plane from a roof_system polygon. `direction` picks the
+ * slope axis ("Horizontal" → X, "Vertical" → Z, otherwise the shorter side);
+ * the eave is the side facing away from the building centre (world origin).
+ */
+function buildRoofPlane(pts: [number, number][], pitch: number, direction: string | undefined, baseElev: number): RoofPlane {
+  const xs = pts.map((p) => p[0]);
+  const zs = pts.map((p) => p[1]);
+  const minX = Math.min(...xs), maxX = Math.max(...xs);
+  const minZ = Math.min(...zs), maxZ = Math.max(...zs);
+
+  const dir = (direction || '').toLowerCase();
+  let axis: 'x' | 'z';
+  if (dir === 'horizontal') axis = 'x';
+  else if (dir === 'vertical') axis = 'z';
+  else axis = (maxX - minX) <= (maxZ - minZ) ? 'x' : 'z';
+
+  const min = axis === 'x' ? minX : minZ;
+  const max = axis === 'x' ? maxX : maxZ;
+  const outerIsMax = (min + max) / 2 >= 0;
+
+  return {
+    pts,
+    axis,
+    lowCoord: outerIsMax ? max : min,
+    sign: outerIsMax ? -1 : 1,
+    run: max - min,
+    slope: Number.isFinite(pitch) ? Math.max(0, pitch) / 12 : 0,
+    baseElev,
+  };
+}
+
+function roofPlaneHeightAt(plane: RoofPlane, x: number, z: number): number {
+  const coord = plane.axis === 'x' ? x : z;
+  const along = Math.max(0, Math.min(plane.run, (coord - plane.lowCoord) * plane.sign));
+  return plane.baseElev + along * plane.slope;
+}
+
+function pointInPolygon(x: number, z: number, pts: [number, number][]): boolean {
+  let inside = false;
+  for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) {
+    const [xi, zi] = pts[i];
+    const [xj, zj] = pts[j];
+    if ((zi > z) !== (zj > z) && x < ((xj - xi) * (z - zi)) / (zj - zi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+function distanceToPolygon(x: number, z: number, pts: [number, number][]): number {
+  let best = Infinity;
+  for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) {
+    const [ax, az] = pts[j];
+    const [bx, bz] = pts[i];
+    const abx = bx - ax, abz = bz - az;
+    const t = Math.max(0, Math.min(1, ((x - ax) * abx + (z - az) * abz) / Math.max(abx * abx + abz * abz, 1e-9)));
+    best = Math.min(best, Math.hypot(x - (ax + abx * t), z - (az + abz * t)));
+  }
+  return best;
+}
+
+/**
+ * Roof surface height at a plan point: the highest plane containing it (ridges
+ * and valleys sit on two planes), else the nearest plane. Null when there are no planes.
+ */
+function roofHeightAt(planes: RoofPlane[], x: number, z: number): number | null {
+  if (!planes.length) return null;
+  const tolerance = 0.05;
+  let best: number | null = null;
+  planes.forEach((plane) => {
+    if (!pointInPolygon(x, z, plane.pts) && distanceToPolygon(x, z, plane.pts) > tolerance) return;
+    const h = roofPlaneHeightAt(plane, x, z);
+    if (best === null || h > best) best = h;
+  });
+  if (best !== null) return best;
+
+  let nearest = planes[0];
+  let nearestDist = Infinity;
+  planes.forEach((plane) => {
+    const d = distanceToPolygon(x, z, plane.pts);
+    if (d < nearestDist) {
+      nearestDist = d;
+      nearest = plane;
+    }
+  });
+  return roofPlaneHeightAt(nearest, x, z);
+}
+
+// Line records that belong to the roof and follow its planes
+const ROOF_LINE_TYPES = new Set(['roof_system', 'eave_length', 'ridge_length', 'hip_length', 'valley_length', 'gable_length']);
+
+// ─── Structural member helpers ───────────────────────────────────────────────
+// Headers, posts and beams get real lumber sections instead of generic lines
+const STRUCTURAL_MEMBER_TYPES = new Set(['header', 'post', 'dropped_beam', 'flush_beam', 'ridge_beam']);
+
+export const TOP_PLATE_DEPTH = 3 / 12;     // double 2x top plate (feet)
+export const FLOOR_JOIST_DEPTH = 9.25 / 12; // 2x10 joist (feet)
+
+// World-space wall line used to seat members that bear on walls
+interface WallTopSegment {
+  a: [number, number];
+  b: [number, number];
+  top: number;              // elevation of the wall top (feet)
+}
+
+/** Inch text such as `11-1/4`, `5 1/2`, `24` or `9.25` → inches. */
+function parseInchValue(raw: unknown): number | null {
+  if (typeof raw === 'number') return Number.isFinite(raw) ? raw : null;
+  if (typeof raw !== 'string') return null;
+  const m = raw.trim().replace(/"/g, '').match(/^(\d+(?:\.\d+)?)(?:[\s-]+(\d+)\/(\d+))?$/);
+  if (!m) return null;
+  const whole = parseFloat(m[1]);
+  const frac = m[2] && m[3] && parseFloat(m[3]) ? parseFloat(m[2]) / parseFloat(m[3]) : 0;
+  return whole + frac;
+}
+
+/** Nominal lumber size → dressed size in inches (2 → 1.5, 10 → 9.25). */
+function dressedLumberInches(nominal: number): number {
+  return nominal <= 6 ? nominal - 0.5 : nominal - 0.75;
+}
+
+/**
+ * Member cross-section in feet. `board_size` / `dimension` / `size` ("2X10")
+ * are nominal and dressed down; explicit `width` / `height` are actual inches.
+ * Width is multiplied by `plies`.
+ */
+function parseMemberSection(
+  settings: NewRecord['settings'],
+  fallbackIn: [number, number],
+  allowExplicitSize = true
+): { width: number; depth: number } {
+  let widthIn = fallbackIn[0];
+  let depthIn = fallbackIn[1];
+
+  const nominal = [settings.board_size, settings.dimension, settings.size]
+    .find((v): v is string => typeof v === 'string' && /\d\s*x\s*\d/i.test(v));
+  const nominalMatch = nominal?.match(/(\d+(?:\.\d+)?)\s*x\s*(\d+(?:\.\d+)?)/i);
+  const explicitWidth = allowExplicitSize ? parseInchValue(settings.width) : null;
+  const explicitDepth = allowExplicitSize ? parseInchValue(settings.height) : null;
+
+  if (nominalMatch) {
+    widthIn = dressedLumberInches(parseFloat(nominalMatch[1]));
+    depthIn = dressedLumberInches(parseFloat(nominalMatch[2]));
+  } else if (explicitWidth || explicitDepth) {
+    widthIn = explicitWidth || widthIn;
+    depthIn = explicitDepth || depthIn;
+  }
+
+  const plies = Math.max(1, parseInt(String(settings.plies ?? '1'), 10) || 1);
+  return { width: (widthIn * plies) / 12, depth: depthIn / 12 };
+}
+
+/** Top of the wall nearest to a plan point, or null when there are no walls. */
+function nearestWallTop(segs: WallTopSegment[], x: number, z: number): number | null {
+  let best: WallTopSegment | null = null;
+  let bestDist = Infinity;
+  segs.forEach((seg) => {
+    const d = distanceToPolygon(x, z, [seg.a, seg.b]);
+    if (d < bestDist) {
+      bestDist = d;
+      best = seg;
+    }
+  });
+  return best ? (best as WallTopSegment).top : null;
+}
+
+// ─── Floor framing helpers ───────────────────────────────────────────────────
+const FLOOR_FRAMING_TYPES = new Set(['floor_system', 'floor_truss_bracing']);
+
+// ─── Stair helpers ───────────────────────────────────────────────────────────
+const STAIR_MAX_RISE = 7.75 / 12;   // feet (IRC maximum riser)
+
+const ORDINAL_WORDS: Record<string, number> = { FIRST: 1, SECOND: 2, THIRD: 3, FOURTH: 4, FIFTH: 5 };
+
+/**
+ * One spelling per level: "2nd floor", "2ND" and "SECOND FLOOR" all become
+ * "SECOND FLOOR", "3RD" and "third floor" become "3RD FLOOR". Roof and roof
+ * framing labels ("ROOF", "BIRDS EYE ROOF FRAMING") are not storeys and give ''.
+ */
+export function canonicalLevelId(rawLabel: string): string {
+  const label = rawLabel.trim().toUpperCase().replace(/\s+/g, ' ');
+  if (!label || label === 'DEFAULT' || /\bROOF\b/.test(label)) return '';
+  const base = label.replace(/ FLOOR$/, '');
+  const ordinal = base.match(/^(\d+)(?:ST|ND|RD|TH)$/);
+  const storey = ordinal ? parseInt(ordinal[1], 10) : ORDINAL_WORDS[base];
+  if (storey === 1 || base === 'MAIN') return 'MAIN FLOOR';
+  if (storey === 2) return 'SECOND FLOOR';
+  if (storey > 2) {
+    const suffix = storey % 100 >= 11 && storey % 100 <= 13 ? 'TH' : ['TH', 'ST', 'ND', 'RD'][storey % 10] ?? 'TH';
+    return `${storey}${suffix} FLOOR`;
+  }
+  if (Object.prototype.hasOwnProperty.call(FLOOR_ELEVATIONS, `${label} FLOOR`)) return `${label} FLOOR`;
+  return label;
+}
+
+/** Default elevation of a level named loosely ("2ND", "MAIN FLOOR", "garage"), or null if unknown. */
+export function resolveLevelElevation(rawLabel: string): number | null {
+  const label = canonicalLevelId(rawLabel);
+  if (!label) return null;
+  if (Object.prototype.hasOwnProperty.call(FLOOR_ELEVATIONS, label)) return FLOOR_ELEVATIONS[label];
+  // Higher storeys ("3RD FLOOR", "4TH") stack at the main-to-second floor height
+  const ordinal = label.match(/^(\d+)(ST|ND|RD|TH)\b/);
+  if (ordinal) {
+    const storey = FLOOR_ELEVATIONS['SECOND FLOOR'] - FLOOR_ELEVATIONS['MAIN FLOOR'];
+    return FLOOR_ELEVATIONS['MAIN FLOOR'] + (parseInt(ordinal[1], 10) - 1) * storey;
+  }
+  return null;
+}
+
+// ─── Record level helpers ────────────────────────────────────────────────────
+// Record-format files name their levels freely (`floor_level`,
+// `bundle_floor_level`, slab `location`); each distinct name becomes a level
+// in the levels panel, seeded from FLOOR_ELEVATIONS.
+interface RecordLevel {
+  id: string;           // canonical name, see canonicalLevelId
+  label: string;
+  elevation: number;    // feet, bottom of the level's walls
+  height: number;       // feet, floor to floor
+  count: number;        // records on the level
+}
+
+// Roof records follow the wall tops rather than a level
+export const ROOF_FOLLOWING_TYPES = new Set([...ROOF_LINE_TYPES, 'ridge_beam']);
+
+/** "1ST TO 2ND" style stair location → [from, to] level labels. */
+function stairLevelLabels(settings: NewRecord['settings']): [string, string | undefined] {
+  const location = String(settings.location || settings.name || '').toUpperCase();
+  const [fromLabel, toLabel] = location.replace(/^STAIRS\s*/, '').split(/\s+TO\s+/);
+  return [fromLabel || '', toLabel];
+}
+
+/** Level a record belongs to, or '' for roof records and records without one. */
+function recordLevelId(rec: NewRecord): string {
+  const mt = rec.materialType;
+  const settings = rec.settings;
+  if (ROOF_FOLLOWING_TYPES.has(mt) || mt === 'porch_ceiling') return '';
+  if (mt === 'garage_area') return 'GARAGE';
+  if (mt === 'floor_area') return canonicalLevelId(String(settings.location || settings.floor_level || ''));
+  if (mt === 'stairs') {
+    const [fromLabel] = stairLevelLabels(settings);
+    if (resolveLevelElevation(fromLabel) !== null) return canonicalLevelId(fromLabel);
+  }
+  return canonicalLevelId(String(settings.floor_level || settings.bundle_floor_level || ''));
+}
+
+/**
+ * Distinct levels of a record-format file, lowest first. Floor-to-floor
+ * height runs to the next level sitting on this one's walls, or is the
+ * tallest wall on the level when nothing stacks on it.
+ */
+function discoverRecordLevels(records: NewRecord[]): RecordLevel[] {
+  const storey = FLOOR_ELEVATIONS['SECOND FLOOR'] - FLOOR_ELEVATIONS['MAIN FLOOR'];
+  const levels = new Map<string, RecordLevel>();
+  records.forEach((rec) => {
+    const id = recordLevelId(rec);
+    if (!id) return;
+    let level = levels.get(id);
+    if (!level) {
+      level = {
+        id,
+        label: id.toLowerCase().replace(/\b[a-z]/g, (c) => c.toUpperCase()),
+        elevation: resolveLevelElevation(id) ?? FLOOR_ELEVATIONS.default,
+        height: 0,
+        count: 0,
+      };
+      levels.set(id, level);
+    }
+    level.count++;
+    if (rec.materialType === 'wall') {
+      const wallHeight = parseFloat(String(rec.settings.height || '8'));
+      if (Number.isFinite(wallHeight)) level.height = Math.max(level.height, wallHeight);
+    }
+  });
+
+  const sorted = Array.from(levels.values()).sort((a, b) => a.elevation - b.elevation);
+  sorted.forEach((level) => {
+    const wallTop = level.elevation + (level.height || storey);
+    const above = sorted.find((other) => other.elevation > level.elevation && other.elevation >= wallTop - 1);
+    level.height = above ? above.elevation - level.elevation : (level.height || storey);
+  });
+  return sorted;
+}
+
+// ─── Door helpers ────────────────────────────────────────────────────────────
+const DOOR_RECORD_TYPES = new Set(['exterior_door', 'interior_door']);
+
+/** Door leaf width in feet from a name like `2'6" Standard RH`; 3' when the name has no size. */
+function doorWidthFromSettings(settings: NewRecord['settings']): number {
+  const sized = String(settings.name || '').match(/\d+'\s*\d*(?:\s*\d+\/\d+)?"?/);
+  return sized ? parseFeetInches(sized[0], 3) : 3;
+}
+
+// ─── Facade layer helpers ────────────────────────────────────────────────────
+// Exterior finishes drawn as thin layers on the outside face of a wall.
+// `gap` stacks the layers so trim and flashing sit proud of the siding;
+// `band` is the strip height (feet) for linear items, null for full coverage.
+export interface FacadeLayerStyle {
+  gap: number;
+  thickness: number;
+  band: number | null;
+  metalness: number;
+  roughness: number;
+}
+
+export const FACADE_LAYERS: Record<string, FacadeLayerStyle> = {
+  siding:         { gap: 0.02, thickness: 0.06, band: null,     metalness: 0.0,  roughness: 0.9 },
+  siding_starter: { gap: 0.02, thickness: 0.04, band: 2 / 12,   metalness: 0.1,  roughness: 0.6 },
+  trim:           { gap: 0.09, thickness: 0.06, band: 3.5 / 12, metalness: 0.0,  roughness: 0.5 },
+  flashing:       { gap: 0.09, thickness: 0.02, band: 4 / 12,   metalness: 0.75, roughness: 0.3 },
+  post_wrap:      { gap: 0.09, thickness: 0.08, band: null,     metalness: 0.0,  roughness: 0.55 },
+};
+
+// ─── Deck helpers ────────────────────────────────────────────────────────────
+const DECK_RECORD_TYPES = new Set(['lf_fivedotfive_decking', 'lf_railing', 'ledger', 'cantilever_closure']);
+
+// ─── Area slab helpers ───────────────────────────────────────────────────────
+const AREA_SLAB_TYPES = new Set(['floor_area', 'garage_area', 'porch_ceiling']);
+const SLAB_THICKNESS: Record<string, number> = {
+  floor_area: 0.25,        // subfloor + finish
+  garage_area: 4 / 12,     // concrete slab
+  porch_ceiling: 0.5 / 12, // soffit board
+};
+
+// ─── Categorise a wall's settings.type into a display label ──────────────────
+function categoriseWallType(settings: NewRecord['settings']): string {
+  const t = (settings.type || settings.name || '').toUpperCase();
+  if (t.includes('PERIMETER')) return 'Perimeter Wall';
+  if (t.includes('INTERIOR')) return 'Interior Wall';
+  if (t.includes('FOUNDATION')) return 'Foundation Wall';
+  if (t.includes('KNEE')) return 'Knee Wall';
+  if (t.includes('EXTERIOR')) return 'Exterior Wall';
+  return 'Other Wall';
+}
+
+// ─── Old-format class → display label ────────────────────────────────────────
+const OLD_CLASS_LABEL: Record<string, string> = {
+  perimeter_wall: 'Perimeter Wall',
+  interior_wall: 'Interior Wall',
+  foundation_wall: 'Foundation Wall',
+  block_foundation_wall: 'Foundation Wall',
+  knee_wall: 'Knee Wall',
+};
+
+// ─── Building model ──────────────────────────────────────────────────────────
+// Every loader turns its JSON into this model: world feet, centred on the
+// origin, x / z in plan and y up. HouseViewer.buildModel is the only code
+// that turns it into meshes.
+
+export interface ModelLevel {
+  id: string;
+  label: string;
+  order: number;        // stacking order; 0 = main floor
+  elevation: number;    // feet, bottom of the storey's walls
+  height: number;       // feet, floor to floor
+  count: number;        // source elements on the level
+}
+
+/** Plan page an element was detected on; such models are grouped by page in the assemblies panel */
+export interface ModelSource {
+  sourceId: string;
+  pageId: string;
+  pageLabel: string;
+}
+
+export interface ModelIssue {
+  kind: DiagnosticKind;
+  message: string;
+}
+
+export interface ModelWall {
+  /** How load diagnostics name the wall, e.g. `records[3] Garage Wall` */
+  ref: string;
+  id?: string;
+  start: Vec2;
+  end: Vec2;
+  levelId: string;            // '' when the format has no storeys
+  baseElev: number;
+  height: number;
+  thickness: number;
+  label: string;
+  wallType: string;
+  color: number;
+  texture?: string;
+  assembly?: WallAssembly;
+  dimensionText?: string | null;
+  confidence?: number;
+  source?: ModelSource;
+  /** Reported with the built wall as their zoom target */
+  issues?: ModelIssue[];
+}
+
+export interface ModelOpening {
+  kind: OpeningKind;
+  at: Vec2;
+  baseElev: number;
+  label: string;
+  width: number;
+  height: number | null;      // null: the kind's default, kept under the top plates
+  sill: number | null;        // null: doors on the floor, windows hung from the head height
+  /** Walls (indices into `walls`) it is cut into, closest first; otherwise the nearest wall */
+  hosts?: number[];
+  materialType?: string;
+  /** Door that is only a walkthrough portal: cut, but its leaf stays hidden */
+  portalOnly?: boolean;
+}
+
+export interface ModelSlab {
+  type: string;               // stats key, e.g. floor / ceiling
+  outline: Vec2[];
+  top: number;
+  thickness: number;
+  color: number;
+  opacity: number;
+  walkable: boolean;
+  castShadow?: boolean;
+  levelId?: string;
+}
+
+/** Planar roof facet; height = baseElev + clamp(rise · (p − origin), 0, maxRise) */
+export interface ModelRoofFacet {
+  type: string;
+  outline: Vec2[];
+  baseElev: number;
+  origin: Vec2;
+  rise: Vec2;
+  maxRise: number;
+  pitch: number;
+  color: number;
+  opacity: number;
+  levelId: string;
+  source?: ModelSource;
+}
+
+export interface ModelRoofEdge {
+  type: string;
+  a: [number, number, number];
+  b: [number, number, number];
+  levelId: string;
+  source?: ModelSource;
+}
+
+/** Header, beam or post: a box on its centreline from a to b (posts run straight up) */
+export interface ModelMember {
+  type: string;
+  a: [number, number, number];
+  b: [number, number, number];
+  width: number;              // across the member in plan
+  depth: number;              // beams: vertical; posts: the other plan side
+  levelId: string;
+}
+
+/** Joists or trusses at `spacing` across an outline and closed with rim boards; a line is one member */
+export interface ModelFraming {
+  type: string;
+  points: Vec2[];
+  top: number;
+  width: number;
+  depth: number;
+  spacing: number;
+  runAxis: 'x' | 'z';         // joists run along this axis
+  levelId: string;
+}
+
+/** Siding, trim, flashing … laid on the outside face of the nearest exterior wall */
+export interface ModelFacade {
+  type: string;
+  points: Vec2[];
+  area: number | null;        // siding coverage (sq ft) sets the band height
+  levelId: string;            // hosts on this level's walls when set
+}
+
+/** Deck boards, railing, or a ledger / cantilever closure hung off the nearest wall */
+export interface ModelDeck {
+  type: string;
+  points: Vec2[];
+  top: number;                // deck surface, the level's floor
+  ledger?: { width: number; depth: number; length: number; onRoof: boolean };
+  levelId: string;
+}
+
+/** A flight from `base`; a point footprint climbs towards the centre, a line or outline sets the run */
+export interface ModelStairs {
+  points: Vec2[];
+  base: number;
+  rise: number;               // floor to floor
+  risers: number;
+  width: number;
+  stringer: { width: number; depth: number };
+  levelId: string;
+}
+
+/** Element with no dedicated builder, drawn as a line (2 points) or a filled outline */
+export interface ModelMarkup {
+  type: string;
+  points: Array<[number, number, number]>;
+  levelId: string;
+  issues?: ModelIssue[];
+}
+
+/** Estimate elements with no counterpart in other formats, built once every wall exists */
+export interface ModelDetails {
+  members: ModelMember[];
+  framing: ModelFraming[];
+  facades: ModelFacade[];
+  decks: ModelDeck[];
+  stairs: ModelStairs[];
+  markup: ModelMarkup[];
+}
+
+export interface BuildingModel {
+  metadata: {
+    format: string;
+    title: string;                          // start of the file-info line
+    notes: string[];                        // format-specific file-info notes
+    scaleWarning: string | null;
+    legend: 'materials' | 'none';
+    typeCounts: Record<string, number>;     // stats the loader counts itself (estimate details)
+    issues: ModelIssue[];                   // problems with no built element to point at
+  };
+  levels: ModelLevel[];
+  roofBase: number;                         // elevation the roof sits on
+  walls: ModelWall[];
+  openings: ModelOpening[];
+  slabs: ModelSlab[];
+  roof: { facets: ModelRoofFacet[]; edges: ModelRoofEdge[] };
+  details: ModelDetails;
+}
+
+function emptyBuildingModel(format: string, title: string): BuildingModel {
+  return {
+    metadata: { format, title, notes: [], scaleWarning: null, legend: 'none', typeCounts: {}, issues: [] },
+    levels: [],
+    roofBase: 0,
+    walls: [],
+    openings: [],
+    slabs: [],
+    roof: { facets: [], edges: [] },
+    details: { members: [], framing: [], facades: [], decks: [], stairs: [], markup: [] },
+  };
+}
+
+function rectOutline(cx: number, cz: number, width: number, depth: number): Vec2[] {
+  return [
+    [cx - width / 2, cz - depth / 2], [cx + width / 2, cz - depth / 2],
+    [cx + width / 2, cz + depth / 2], [cx - width / 2, cz + depth / 2],
+  ];
+}
+
+// ─── Building model loaders ──────────────────────────────────────────────────
+function hasPlanEntities(page: PlanPage): boolean {
+  const e = page?.entities;
+  return !!e && (!!(e.walls && e.walls.length) || !!e.windows_and_doors_floor_plans || !!e.roofing);
+}
+
+/**
+ * Opening symbols of a plan page, classified as door or window. The
+ * detector's class_ids decide first (tags are dropped), a `doors` box over
+ * the symbol forces a door, and otherwise thin symbols are windows. The
+ * nearest `dimension_text` size callout supplies width and height.
+ * Boxes stay in page units.
+ */
+/** Openings on a page, with the count of symbols per class id missing from PLAN_OPENING_CLASSES. */
+function extractPlanOpenings(floorPlan: any, entities: any): { openings: PlanOpening[]; unknownClasses: Map<number, number> } {
+  const unknownClasses = new Map<number, number>();
+  if (!floorPlan) return { openings: [], unknownClasses };
+
+  // Boxes with their class ids; PagesAndHeaders.headers nests both per title block
+  let rawBoxes: any[] = floorPlan.boxes || floorPlan.HeadersOnly?.boxes || floorPlan.Boxes || [];
+  let classIds: any[] = floorPlan.class_ids || floorPlan.HeadersOnly?.class_ids || [];
+  const headers = floorPlan.headers || floorPlan.PagesAndHeaders?.headers;
+  if (!rawBoxes.length && Array.isArray(headers?.boxes)) {
+    rawBoxes = headers.boxes.flat(1);
+    classIds = Array.isArray(headers.class_ids) ? headers.class_ids.flat(1) : [];
+  }
+  if (!Array.isArray(rawBoxes)) return { openings: [], unknownClasses };
+  if (!Array.isArray(classIds) || classIds.length !== rawBoxes.length) classIds = [];
+
+  const doorBoxes = (floorPlan.doors || entities?.doors || [])
+    .map((d: any) => toOpeningBox(d?.box ?? d?.bbox ?? d))
+    .filter((b: OpeningBox | null): b is OpeningBox => !!b);
+  const callouts = (floorPlan.dimension_text || entities?.dimension_text || [])
+    .map((t: any) => ({ box: toOpeningBox(t?.box ?? t?.bbox), size: parseOpeningSizeText(t?.text ?? t?.value) }))
+    .filter((t: { box: OpeningBox | null; size: { width: number; height: number } | null }) => t.box && t.size);
+
+  const openings: PlanOpening[] = [];
+  rawBoxes.forEach((raw: any, idx: number) => {
+    const box = toOpeningBox(raw);
+    if (!box) return;
+    const w = box.xmax - box.xmin;
+    const h = box.ymax - box.ymin;
+
+    const classId = Number(classIds[idx]);
+    let kind: OpeningKind | null = null;
+    if (Number.isFinite(classId) && classIds.length) {
+      if (PLAN_TAG_CLASSES.has(classId)) return;
+      kind = PLAN_OPENING_CLASSES[classId] ?? null;
+      if (!kind) unknownClasses.set(classId, (unknownClasses.get(classId) ?? 0) + 1);
+    }
+    if (doorBoxes.some((d: OpeningBox) => boxesOverlap(d, box))) kind = 'door';
+
+    // Nearest callout within about one symbol of the box centre
+    const cxBox = (box.xmin + box.xmax) / 2;
+    const cyBox = (box.ymin + box.ymax) / 2;
+    const reach = Math.hypot(w, h) * 1.5;
+    let size: { width: number; height: number } | null = null;
+    let sizeDist = Infinity;
+    callouts.forEach((t: { box: OpeningBox; size: { width: number; height: number } }) => {
+      const dist = Math.hypot((t.box.xmin + t.box.xmax) / 2 - cxBox, (t.box.ymin + t.box.ymax) / 2 - cyBox);
+      if (dist < reach && dist < sizeDist) {
+        sizeDist = dist;
+        size = t.size;
+      }
+    });
+    const callout = size as { width: number; height: number } | null;
+
+    if (!kind) {
+      if (callout) kind = callout.height >= 6 ? 'door' : 'window';
+      else kind = Math.min(w, h) / Math.max(w, h, 1e-6) < WINDOW_SYMBOL_ASPECT ? 'window' : 'door';
+    }
+    openings.push({ ...box, kind, width: callout?.width ?? null, height: callout?.height ?? null });
+  });
+  return { openings, unknownClasses };
+}
+
+/**
+ * Plan roof (Roof-Classification facets). EdgesSlopesAssignment lists, per
+ * SlopesOnly pitch label, the edges that bound that roof facet. Each facet is
+ * chained into an outline rising at its pitch from its eave, seated at
+ * `baseHeight` (the top storey's wall tops); edges are lifted onto the facets.
+ */
+function planRoofElements(
+  roofing: any,
+  pageScale: number,
+  cx: number,
+  cy: number,
+  baseHeight: number,
+  levelId: string,
+  source: ModelSource
+): { facets: ModelRoofFacet[]; edges: ModelRoofEdge[] } {
+  const facets: ModelRoofFacet[] = [];
+  const edges: ModelRoofEdge[] = [];
+  const edgesOnly = roofing?.EdgesOnly;
+  if (!edgesOnly || !Array.isArray(edgesOnly.keypoints)) return { facets, edges };
+
+  const keypoints: any[] = edgesOnly.keypoints;
+  const pitchs: any[] = Array.isArray(edgesOnly.pitchs) ? edgesOnly.pitchs : [];
+  const classCandidates: any[] = Array.isArray(edgesOnly.class_ids) ? edgesOnly.class_ids : [];
+  const classList: any[] = classCandidates.length === keypoints.length && !Array.isArray(classCandidates[0])
+    ? classCandidates
+    : classCandidates.find((arr) => Array.isArray(arr) && arr.length === keypoints.length) || [];
+  const slopeTexts: any[] = Array.isArray(roofing.SlopesOnly?.texts) ? roofing.SlopesOnly.texts : [];
+  const assignment: Record<string, any> = roofing.EdgesSlopesAssignment || {};
+  const tol = 0.75; // feet; corners closer than this are the same point
+
+  // Edge segments in world feet, with their class
+  const segments = keypoints.map((pair: any) => {
+    if (!Array.isArray(pair) || pair.length < 2) return null;
+    const coords = [pair[0]?.[0], pair[0]?.[1], pair[1]?.[0], pair[1]?.[1]].map(Number);
+    if (coords.some((v) => !Number.isFinite(v))) return null;
+    return [
+      new THREE.Vector2(coords[0] * pageScale - cx, coords[1] * pageScale - cy),
+      new THREE.Vector2(coords[2] * pageScale - cx, coords[3] * pageScale - cy),
+    ] as [THREE.Vector2, THREE.Vector2];
+  });
+  const edgeType = (idx: number) => ROOF_EDGE_CLASSES[Number(classList[idx])] ?? 'eave_length';
+  const edgePitch = (idx: number) => {
+    const candidate = pitchs[idx];
+    return parseRoofPitch(Array.isArray(candidate) ? candidate[0] : candidate);
+  };
+
+  // Heights at facet corners, so edges can be lifted onto the surfaces
+  const cornerHeights: Array<{ p: THREE.Vector2; y: number }> = [];
+  const heightNear = (p: THREE.Vector2) => {
+    const hit = cornerHeights.find((c) => c.p.distanceTo(p) < tol);
+    return hit ? hit.y : baseHeight;
+  };
+
+  Object.entries(assignment).forEach(([slopeKey, edgeIds]) => {
+    if (!Array.isArray(edgeIds)) return;
+    const ids = edgeIds.map(Number).filter((i) => segments[i]);
+    const outline = chainRoofFacet(ids.map((i) => segments[i]!), tol);
+    if (outline.length < 3) return;
+
+    const pitch = parseRoofPitch(slopeTexts[Number(slopeKey)])
+      ?? ids.map(edgePitch).find((v): v is number => v !== null)
+      ?? 9;
+
+    // The plane rises from the facet's longest eave (else its longest
+    // non-ridge edge) towards the facet centre
+    const byLength = ids.slice().sort((a, b) =>
+      segments[b]![0].distanceTo(segments[b]![1]) - segments[a]![0].distanceTo(segments[a]![1]));
+    const eaveId = byLength.find((i) => edgeType(i) === 'eave_length')
+      ?? byLength.find((i) => !['ridge_length', 'hip_length', 'valley_length'].includes(edgeType(i)));
+    const facet: ModelRoofFacet = {
+      type: 'roof_facet',
+      outline: outline.map((c) => [c.x, c.y] as Vec2),
+      baseElev: baseHeight,
+      origin: [0, 0],
+      rise: [0, 0],
+      maxRise: Infinity,
+      pitch,
+      color: MATERIAL_COLORS.roof_facet,
+      opacity: 1,
+      levelId,
+      source,
+    };
+    if (eaveId !== undefined) {
+      const [ea, eb] = segments[eaveId]!;
+      const dir = eb.clone().sub(ea).normalize();
+      const inward = new THREE.Vector2(-dir.y, dir.x);
+      const centre = outline.reduce((sum, c) => sum.add(c), new THREE.Vector2()).divideScalar(outline.length);
+      if (inward.dot(centre.clone().sub(ea)) < 0) inward.negate();
+      facet.origin = [ea.x, ea.y];
+      facet.rise = [inward.x * pitch / 12, inward.y * pitch / 12];
+    }
+    facets.push(facet);
+    outline.forEach((c) => cornerHeights.push({ p: c, y: roofFacetHeightAt(facet, c.x, c.y) }));
+  });
+
+  segments.forEach((seg, idx) => {
+    if (!seg) return;
+    const [a, b] = seg;
+    edges.push({ type: edgeType(idx), a: [a.x, heightNear(a), a.y], b: [b.x, heightNear(b), b.y], levelId, source });
+  });
+  return { facets, edges };
+}
+
+export function roofFacetHeightAt(facet: ModelRoofFacet, x: number, z: number): number {
+  const rise = facet.rise[0] * (x - facet.origin[0]) + facet.rise[1] * (z - facet.origin[1]);
+  return facet.baseElev + Math.max(0, Math.min(facet.maxRise, rise));
+}
+
+export function planToModel(data: PlanJson, fileName: string): BuildingModel {
+  const model = emptyBuildingModel('plan', `Plan ${fileName}`);
+  const pages = (data.pages || []).filter(hasPlanEntities);
+  (data.pages || []).filter((p) => !pages.includes(p)).forEach((p) => {
+    const label = `${p.source_file_id ?? 'Unknown Source'} page ${p.page_number_in_source_file ?? p.page_index ?? '?'}`;
+    model.metadata.issues.push({ kind: 'empty_page', message: `${label}: no walls, openings or roofing` });
+  });
+  if (!pages.length) throw new Error('No entities found in plan file.');
+
+  // Plan coordinates are per-page pixels; walls and openings carry their page scale
+  type WallDatum = {
+    x1: number; y1: number; x2: number; y2: number; pageScale: number; levelId: string;
+    thicknessIn: number; heightFt: number; heightMissing: boolean; label: string; source: ModelSource;
+    assembly: WallAssembly; dimensionText: string | null;
+  };
+
+  const walls: WallDatum[] = [];
+  const openings: Array<PlanOpening & { levelId: string }> = []; // boxes already in feet
+  const roofEdgeQueue: Array<{ roofing: any; pageScale: number; levelId: string; source: ModelSource }> = [];
+  const fallbackScalePages: string[] = [];
+  let roofEdgeCount = 0;
+
+  pages.forEach((page) => {
+    const entities = page.entities || {};
+    const sourceId = page.source_file_id || 'Unknown Source';
+    const pageLabel = `Page ${page.page_number_in_source_file ?? page.page_index ?? ''}`.trim();
+    const pageId = `${sourceId}::${page.page_number_in_source_file ?? page.page_index ?? Math.random().toString(36).slice(2)}`;
+    const source: ModelSource = { sourceId, pageId, pageLabel };
+    const pageScale = resolvePlanPageScale(page);
+    if (pageScale.fallback) fallbackScalePages.push(pageLabel);
+    const k = pageScale.feetPerUnit;
+    const levelId = classifyPlanPageLevel(page);
+    const dimensionCallouts = (Array.isArray(entities.dimension_text) ? entities.dimension_text : [])
+      .map((t: any) => ({ box: toOpeningBox(t?.box ?? t?.bbox), text: String(t?.text ?? t?.value ?? '') }))
+      .filter((t: { box: OpeningBox | null; text: string }): t is { box: OpeningBox; text: string } => !!t.box && parseDimensionText(t.text) !== null);
+    (entities.walls || []).forEach((wall, idx) => {
+      const coords = wall.geometry?.coordinates;
+      if (!coords) return;
+      if (Array.isArray(coords)) {
+        // Some detectors write a bare [x1, y1, x2, y2]; say why the wall is missing
+        model.metadata.issues.push({
+          kind: 'skipped_wall',
+          message: `pages[${(data.pages || []).indexOf(page)}].entities.walls[${idx}]: geometry.coordinates is an array, only {x1, y1, x2, y2} is supported`,
+        });
+        return;
+      }
+      const x1 = Number((coords as any).x1);
+      const y1 = Number((coords as any).y1);
+      const x2 = Number((coords as any).x2);
+      const y2 = Number((coords as any).y2);
+      if (!Number.isFinite(x1) || !Number.isFinite(y1) || !Number.isFinite(x2) || !Number.isFinite(y2)) return;
+
+      const thicknessIn = Number(wall.properties?.thickness_inches) || 6;
+      const parsedHeight = parseFeetInches(wall.properties?.wall_height, NaN);
+      const label = normalizePlanLabel(wall.category || wall.properties?.category || wall.properties?.floor_label);
+
+      walls.push({
+        x1,
+        y1,
+        x2,
+        y2,
+        pageScale: k,
+        levelId,
+        thicknessIn,
+        heightFt: Number.isFinite(parsedHeight) ? parsedHeight : 9,
+        heightMissing: !Number.isFinite(parsedHeight),
+        label: label || `Wall ${idx + 1}`,
+        source,
+        assembly: readWallAssembly(wall.properties),
+        // The wall's own OCR'd dimension, else the nearest page-level callout
+        dimensionText: typeof wall.properties?.dimension_text === 'string'
+          ? wall.properties.dimension_text
+          : nearestDimensionCallout(dimensionCallouts, x1, y1, x2, y2),
+      });
+    });
+
+    const { openings: pageOpenings, unknownClasses } = extractPlanOpenings(entities.windows_and_doors_floor_plans, entities);
+    unknownClasses.forEach((count, classId) => model.metadata.issues.push({
+      kind: 'unknown_class',
+      message: `${sourceId} ${pageLabel}: opening class ${classId} is not a known door or window class; ${count} symbol(s) typed by shape or size callout`,
+    }));
+    openings.push(...pageOpenings.map((o) => ({ ...o, xmin: o.xmin * k, xmax: o.xmax * k, ymin: o.ymin * k, ymax: o.ymax * k, levelId })));
+
+    if (entities.roofing?.EdgesOnly) {
+      roofEdgeQueue.push({ roofing: entities.roofing, pageScale: k, levelId, source });
+      roofEdgeCount += Array.isArray(entities.roofing.EdgesOnly.keypoints) ? entities.roofing.EdgesOnly.keypoints.length : 0;
+    }
+  });
+
+  if (!walls.length && !roofEdgeCount) throw new Error('No walls or roof edges present in plan file.');
+
+  model.metadata.scaleWarning = fallbackScalePages.length
+    ? `No usable scale on ${fallbackScalePages.join(', ')} — plan units treated as inches, sizes may be wrong.`
+    : null;
+
+  // Compute bounds for centering (in feet)
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  walls.forEach((w) => {
+    minX = Math.min(minX, w.x1 * w.pageScale, w.x2 * w.pageScale);
+    maxX = Math.max(maxX, w.x1 * w.pageScale, w.x2 * w.pageScale);
+    minY = Math.min(minY, w.y1 * w.pageScale, w.y2 * w.pageScale);
+    maxY = Math.max(maxY, w.y1 * w.pageScale, w.y2 * w.pageScale);
+  });
+  roofEdgeQueue.forEach(({ roofing, pageScale }) => {
+    const kp: any[] = roofing.EdgesOnly?.keypoints || [];
+    kp.forEach((pair) => {
+      if (!Array.isArray(pair) || pair.length < 2) return;
+      const x1 = Number(pair[0]?.[0]);
+      const y1 = Number(pair[0]?.[1]);
+      const x2 = Number(pair[1]?.[0]);
+      const y2 = Number(pair[1]?.[1]);
+      if ([x1, y1, x2, y2].some((v) => !Number.isFinite(v))) return;
+      minX = Math.min(minX, x1 * pageScale, x2 * pageScale);
+      maxX = Math.max(maxX, x1 * pageScale, x2 * pageScale);
+      minY = Math.min(minY, y1 * pageScale, y2 * pageScale);
+      maxY = Math.max(maxY, y1 * pageScale, y2 * pageScale);
+    });
+  });
+  openings.forEach((b) => {
+    if (!Number.isFinite(b.xmin) || !Number.isFinite(b.xmax) || !Number.isFinite(b.ymin) || !Number.isFinite(b.ymax)) return;
+    minX = Math.min(minX, b.xmin, b.xmax);
+    maxX = Math.max(maxX, b.xmin, b.xmax);
+    minY = Math.min(minY, b.ymin, b.ymax);
+    maxY = Math.max(maxY, b.ymin, b.ymax);
+  });
+
+  const cx = (minX + maxX) / 2;
+  const cy = (minY + maxY) / 2;
+  if (!Number.isFinite(cx) || !Number.isFinite(cy)) throw new Error('Invalid geometry in plan file (non-finite coordinates).');
+
+  // Stack storeys: each level's height is its tallest wall
+  const levelHeights = new Map<string, number>();
+  walls.forEach((w) => levelHeights.set(w.levelId, Math.max(levelHeights.get(w.levelId) ?? 0, w.heightFt || 9)));
+  const levels = stackPlanLevels(levelHeights);
+  model.levels = Array.from(levels.values()).map((level) => ({
+    ...level,
+    count: walls.filter((w) => w.levelId === level.id).length,
+  }));
+  model.roofBase = levels.size ? Math.max(...Array.from(levels.values()).map((l) => l.elevation + l.height)) : 9;
+
+  walls.forEach((w) => {
+    const height = w.heightFt || 9;
+    model.walls.push({
+      ref: `${w.label} on ${w.source.pageLabel}`,
+      start: [w.x1 * w.pageScale - cx, w.y1 * w.pageScale - cy],
+      end: [w.x2 * w.pageScale - cx, w.y2 * w.pageScale - cy],
+      levelId: w.levelId,
+      baseElev: levels.get(w.levelId)?.elevation ?? 0,
+      height,
+      thickness: (w.thicknessIn || 6) * SCALE,
+      label: w.label,
+      wallType: w.label,
+      color: 0xd9d9d9,
+      assembly: w.assembly,
+      dimensionText: w.dimensionText,
+      source: w.source,
+      issues: w.heightMissing
+        ? [{ kind: 'missing_height', message: `${w.label} on ${w.source.pageLabel}: no wall_height, drawn ${height} ft` }]
+        : [],
+    });
+  });
+
+  openings.forEach((box) => {
+    const at: Vec2 = [(box.xmin + box.xmax) / 2 - cx, (box.ymin + box.ymax) / 2 - cy];
+    // Symbols lie along their wall, so the long side is the opening width
+    const width = box.width ?? Math.max(0.1, box.xmax - box.xmin, box.ymax - box.ymin);
+    if (!Number.isFinite(at[0]) || !Number.isFinite(at[1]) || !Number.isFinite(width)) return;
+    model.openings.push({
+      kind: box.kind,
+      at,
+      baseElev: levels.get(box.levelId)?.elevation ?? 0,
+      label: box.kind === 'door' ? 'Door' : 'Window',
+      width,
+      height: box.height,
+      sill: null,
+    });
+  });
+
+  // Roof edges seat on the top storey
+  roofEdgeQueue.forEach((task) => {
+    const roof = planRoofElements(task.roofing, task.pageScale, cx, cy, model.roofBase, task.levelId, task.source);
+    model.roof.facets.push(...roof.facets);
+    model.roof.edges.push(...roof.edges);
+  });
+  return model;
+}
+
+/**
+ * Joist layout of a floor-framing record: section from its truss size or
+ * board, runs along `direction` (else the outline's short side).
+ */
+function recordFraming(rec: NewRecord, points: Vec2[], top: number, levelId: string): ModelFraming {
+  const settings = rec.settings;
+  const type = String(settings.type || settings.name || '').toLowerCase();
+  const isTruss = rec.materialType === 'floor_truss_bracing' || type.includes('truss');
+  const trussDepthIn = parseInchValue(settings.truss_size);
+  const fallbackDepthIn = trussDepthIn ?? (isTruss ? 14 : type.includes('i-joist') ? 11.875 : 9.25);
+  const section = parseMemberSection(settings, [isTruss ? 3.5 : 1.5, fallbackDepthIn], false);
+
+  const xs = points.map((p) => p[0]);
+  const zs = points.map((p) => p[1]);
+  const dir = String(settings.direction || '').toLowerCase();
+  let runAxis: 'x' | 'z';
+  if (dir === 'horizontal') runAxis = 'x';
+  else if (dir === 'vertical') runAxis = 'z';
+  else runAxis = (Math.max(...xs) - Math.min(...xs)) <= (Math.max(...zs) - Math.min(...zs)) ? 'x' : 'z';
+
+  return {
+    type: rec.materialType,
+    points,
+    top,
+    width: section.width,
+    depth: section.depth,
+    spacing: (parseInchValue(settings.oc_spacing) || 16) / 12,
+    runAxis,
+    levelId,
+  };
+}
+
+/**
+ * Flight of a stair record. Floor-to-floor height comes from the "1ST TO 2ND"
+ * style location and the level elevations (falling back to the tread count);
+ * risers are sized to stay under STAIR_MAX_RISE.
+ */
+function recordStairs(
+  settings: NewRecord['settings'],
+  points: Vec2[],
+  levelElevation: (rawLabel: unknown) => number | null,
+  levelElev: number,
+  levelId: string
+): ModelStairs {
+  const [fromLabel, toLabel] = stairLevelLabels(settings);
+  const base = levelElevation(fromLabel) ?? levelElev;
+  const toElev = toLabel ? levelElevation(toLabel) : null;
+  const treadCount = parseInt(String(settings.number_of_treads ?? settings.ext_deck_tread_count ?? ''), 10);
+
+  let rise: number;
+  let risers: number;
+  if (toElev !== null && toElev - base > 0.5) {
+    rise = toElev - base;
+    risers = Math.ceil(rise / STAIR_MAX_RISE);
+  } else if (Number.isFinite(treadCount) && treadCount > 0) {
+    risers = treadCount + 1;
+    rise = risers * STAIR_MAX_RISE;
+  } else {
+    rise = FLOOR_ELEVATIONS['SECOND FLOOR'] - FLOOR_ELEVATIONS['MAIN FLOOR'];
+    risers = Math.ceil(rise / STAIR_MAX_RISE);
+  }
+  const widthIn = parseInchValue(settings.stair_width_inches) ?? parseInchValue(settings.ext_deck_stairs_width) ?? 36;
+  const stringer = parseMemberSection({ board_size: String(settings.stringer_material || '2X12') }, [1.5, 11.25], false);
+  return { points, base, rise, risers, width: widthIn / 12, stringer: { width: stringer.width, depth: stringer.depth }, levelId };
+}
+
+export function recordsToModel(data: NewJsonData, _fileName: string): BuildingModel {
+  const model = emptyBuildingModel('records', `Project ${data.project_id}`);
+  const records = data.records;
+  if (!records || records.length === 0) throw new Error('No records in estimate file.');
+  model.metadata.legend = 'materials';
+  model.metadata.notes.push(`${records.length} records loaded`);
+
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  records.forEach((rec) => {
+    (rec.coordinates_real_world || []).forEach(([x, y]) => {
+      if (!Number.isFinite(x) || !Number.isFinite(y)) return;
+      minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+    });
+  });
+  const cx = (minX + maxX) / 2;
+  const cy = (minY + maxY) / 2;
+  const toWorld = ([x, y]: [number, number]): Vec2 => [(x - cx) * SCALE, (y - cy) * SCALE];
+
+  const levels = discoverRecordLevels(records);
+  model.levels = levels.map((level) => ({ ...level, order: 0 }));
+  const levelElevation = (rawLabel: unknown): number | null => {
+    const id = canonicalLevelId(String(rawLabel ?? ''));
+    if (!id) return null;
+    return levels.find((level) => level.id === id)?.elevation ?? resolveLevelElevation(id);
+  };
+  const recordElevation = (settings: NewRecord['settings']) =>
+    levelElevation(settings.floor_level || settings.bundle_floor_level) ?? FLOOR_ELEVATIONS.default;
+
+  // Roof planes, tilted by pitch and seated on the wall tops
+  const wallTops: WallTopSegment[] = [];
+  let roofBaseElev = 0;
+  records.forEach((rec) => {
+    if (rec.materialType !== 'wall' || rec.coordinates_real_world?.length !== 2) return;
+    const wallBase = recordElevation(rec.settings);
+    const wallHeight = parseFloat((rec.settings.height as string) || '8');
+    if (!Number.isFinite(wallHeight)) return;
+    const [a, b] = rec.coordinates_real_world;
+    wallTops.push({ a: toWorld(a), b: toWorld(b), top: wallBase + wallHeight });
+    roofBaseElev = Math.max(roofBaseElev, wallBase + wallHeight);
+  });
+  roofBaseElev += ELEVATIONS.roof_system;
+  model.roofBase = roofBaseElev;
+
+  const roofPlanes: RoofPlane[] = [];
+  records.forEach((rec) => {
+    if (rec.materialType !== 'roof_system' || !rec.coordinates_real_world || rec.coordinates_real_world.length < 3) return;
+    const pitch = parseFloat(rec.settings.pitch || '4');
+    roofPlanes.push(buildRoofPlane(rec.coordinates_real_world.map(toWorld), pitch, rec.settings.direction, roofBaseElev));
+  });
+
+  const details = model.details;
+  let roofPlaneIdx = 0;
+  records.forEach((rec, index) => {
+    const pts = rec.coordinates_real_world;
+    const settings = rec.settings || {};
+    const mt = rec.materialType || 'default';
+    if (!pts || pts.length === 0) {
+      if (mt === 'wall') model.metadata.issues.push({ kind: 'skipped_wall', message: `records[${index}]: wall has no coordinates` });
+      return;
+    }
+
+    if (mt === 'wall' && pts.length === 2) {
+      const parsedHeight = parseFloat((settings.height as string) || '');
+      const wallType = categoriseWallType(settings);
+      const label = settings.name || 'Wall';
+      const wallId = settings.id ?? settings.wall_id ?? settings.room_id;
+      model.walls.push({
+        ref: `records[${index}] ${settings.name || wallType}`,
+        id: wallId != null ? String(wallId) : undefined,
+        start: toWorld(pts[0]),
+        end: toWorld(pts[1]),
+        levelId: recordLevelId(rec),
+        baseElev: recordElevation(settings),
+        height: Number.isFinite(parsedHeight) ? parsedHeight : 8,
+        thickness: 0.33, // ~4 inches in feet
+        label,
+        wallType,
+        color: MATERIAL_COLORS.wall,
+        texture: typeof settings.texture === 'string' ? settings.texture : undefined,
+        issues: Number.isFinite(parsedHeight)
+          ? []
+          : [{ kind: 'missing_height', message: `records[${index}] ${settings.name || wallType}: no height, drawn 8 ft` }],
+      });
+      return;
+    }
+    if (DOOR_RECORD_TYPES.has(mt)) {
+      model.openings.push({
+        kind: 'door',
+        at: toWorld(pts[0]),
+        baseElev: levelElevation(settings.location) ?? recordElevation(settings),
+        label: settings.name || LABEL_MAP[mt] || mt,
+        width: doorWidthFromSettings(settings),
+        height: parseFeetInches(settings.height, 6 + 8 / 12),
+        sill: 0,
+        materialType: mt,
+      });
+      return;
+    }
+    if (mt === 'roof_system' && pts.length >= 3) {
+      const plane = roofPlanes[roofPlaneIdx++];
+      const slope = plane.sign * plane.slope;
+      model.roof.facets.push({
+        type: mt,
+        outline: plane.pts,
+        baseElev: plane.baseElev,
+        origin: plane.axis === 'x' ? [plane.lowCoord, 0] : [0, plane.lowCoord],
+        rise: plane.axis === 'x' ? [slope, 0] : [0, slope],
+        maxRise: plane.run * plane.slope,
+        pitch: plane.slope * 12,
+        color: MATERIAL_COLORS.roof_system,
+        opacity: 0.82,
+        levelId: '',
+      });
+      return;
+    }
+    if (ROOF_LINE_TYPES.has(mt) && pts.length === 2) {
+      // Roof lines sit on the roof planes (or at wall-top height when none exist)
+      const lift = mt === 'roof_system' ? 0 : (ELEVATIONS[mt] ?? ELEVATIONS.default);
+      const [a, b] = pts.map(toWorld).map(([x, z]) =>
+        [x, (roofHeightAt(roofPlanes, x, z) ?? roofBaseElev) + lift, z] as [number, number, number]);
+      model.roof.edges.push({ type: mt, a, b, levelId: '' });
+      return;
+    }
+
+    if (AREA_SLAB_TYPES.has(mt) && pts.length >= 3) {
+      const outline = pts.map(toWorld);
+      // Floors sit with their top at the level elevation (from `location`, e.g.
+      // "2ND FLOOR"); garages at the GARAGE level; porch ceilings hang at the
+      // top of the nearest wall
+      const thickness = SLAB_THICKNESS[mt] ?? 0.25;
+      let top: number;
+      if (mt === 'porch_ceiling') {
+        const cxw = outline.reduce((sum, p) => sum + p[0], 0) / outline.length;
+        const czw = outline.reduce((sum, p) => sum + p[1], 0) / outline.length;
+        top = (nearestWallTop(wallTops, cxw, czw) ?? 8) + thickness;
+      } else if (mt === 'garage_area') {
+        top = levelElevation('GARAGE') ?? FLOOR_ELEVATIONS.GARAGE;
+      } else {
+        top = levelElevation(settings.location) ?? recordElevation(settings);
+      }
+      model.slabs.push({
+        type: mt,
+        outline,
+        top,
+        thickness,
+        color: MATERIAL_COLORS[mt] ?? MATERIAL_COLORS.default,
+        opacity: 1,
+        walkable: mt !== 'porch_ceiling',
+        castShadow: mt === 'porch_ceiling',
+        levelId: recordLevelId(rec),
+      });
+      return;
+    }
+
+    model.metadata.typeCounts[mt] = (model.metadata.typeCounts[mt] || 0) + 1;
+    const world = pts.map(toWorld);
+    const levelId = recordLevelId(rec);
+    const levelElev = recordElevation(settings);
+
+    if (STRUCTURAL_MEMBER_TYPES.has(mt)) {
+      if (mt === 'post') {
+        // Posts stand on their level; settings.height is the post length in feet
+        const section = parseMemberSection(settings, [5.5, 5.5], false);
+        const height = parseFeetInches(settings.height, 8);
+        const [x, z] = world[0];
+        details.members.push({ type: mt, a: [x, levelElev, z], b: [x, levelElev + height, z], width: section.width, depth: section.depth, levelId });
+        return;
+      }
+      if (world.length < 2) return;
+      const [a, b] = [world[0], world[world.length - 1]];
+      const midX = (a[0] + b[0]) / 2;
+      const midZ = (a[1] + b[1]) / 2;
+      const section = parseMemberSection(settings, mt === 'ridge_beam' ? [5.5, 24] : [1.5, 9.25]);
+
+      // Elevation of the member's top edge
+      const wallTop = nearestWallTop(wallTops, midX, midZ) ?? (levelElev + 8);
+      let topY: number;
+      if (mt === 'header') {
+        // Headers sit directly under the top plates of the wall they span
+        topY = wallTop - TOP_PLATE_DEPTH;
+      } else if (mt === 'dropped_beam') {
+        // Dropped beams carry the joists on top of them
+        topY = wallTop;
+      } else if (mt === 'flush_beam') {
+        // Flush beams sit within the joist depth, tops level with the joists
+        topY = wallTop + FLOOR_JOIST_DEPTH;
+      } else {
+        // Ridge beams run under the roof peak
+        topY = roofHeightAt(roofPlanes, midX, midZ) ?? roofBaseElev;
+      }
+      const y = topY - section.depth / 2;
+      details.members.push({ type: mt, a: [a[0], y, a[1]], b: [b[0], y, b[1]], width: section.width, depth: section.depth, levelId });
+    } else if (FACADE_LAYERS[mt]) {
+      const area = Number(settings.area);
+      details.facades.push({ type: mt, points: world, area: Number.isFinite(area) && area > 0 ? area : null, levelId });
+    } else if (DECK_RECORD_TYPES.has(mt)) {
+      const deck: ModelDeck = { type: mt, points: world, top: levelElev, levelId };
+      if (mt === 'ledger') {
+        // "2X12X16 TR" → 2x12 section, 16' long; roof ledgers sit at the wall top
+        const type = String(settings.type || '');
+        const section = parseMemberSection({ board_size: type }, [1.5, 9.25], false);
+        const lengthMatch = type.match(/\d+\s*x\s*\d+\s*x\s*(\d+)/i);
+        deck.ledger = {
+          width: section.width,
+          depth: section.depth,
+          length: lengthMatch ? parseFloat(lengthMatch[1]) : 8,
+          onRoof: String(settings.bundle_name || '').toUpperCase().includes('ROOF'),
+        };
+      }
+      details.decks.push(deck);
+    } else if (mt === 'stairs') {
+      details.stairs.push(recordStairs(settings, world, levelElevation, levelElev, levelId));
+    } else if (FLOOR_FRAMING_TYPES.has(mt)) {
+      details.framing.push(recordFraming(rec, world, levelElev, levelId));
+    } else if (world.length >= 2) {
+      // Roof records sit on the roof planes (or at wall-top height when none exist)
+      const elev = ELEVATIONS[mt] ?? ELEVATIONS.default;
+      const isRoof = ROOF_LINE_TYPES.has(mt);
+      details.markup.push({
+        type: mt,
+        points: world.map(([x, z]) => [x, isRoof ? (roofHeightAt(roofPlanes, x, z) ?? roofBaseElev) + elev : elev, z]),
+        levelId,
+        issues: isKnownMaterialType(mt) ? [] : [{ kind: 'unknown_material', message: `records[${index}]: unknown materialType "${mt}"` }],
+      });
+    } else if (!isKnownMaterialType(mt)) {
+      model.metadata.issues.push({ kind: 'unknown_material', message: `records[${index}]: unknown materialType "${mt}"` });
+    }
+  });
+  return model;
+}
+
+export function linesToModel(data: LineJsonData, fileName: string): BuildingModel {
+  const model = emptyBuildingModel('lines', `Applied: ${fileName}`);
+  const allWalls = data.walls || [];
+  const walls = allWalls.filter((w): w is LineWall & { start: LinePoint; end: LinePoint } => !!w.start && !!w.end);
+  if (!walls.length) throw new Error('No walls with start and end points.');
+
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  walls.forEach((w) => {
+    minX = Math.min(minX, w.start.x, w.end.x);
+    maxX = Math.max(maxX, w.start.x, w.end.x);
+    minY = Math.min(minY, w.start.y, w.end.y);
+    maxY = Math.max(maxY, w.start.y, w.end.y);
+  });
+  if (!isFinite(minX)) throw new Error('Invalid geometry in wall lines (non-finite coordinates).');
+  const cx = (minX + maxX) / 2;
+  const cy = (minY + maxY) / 2;
+
+  let scaleFactor = 1;
+  if (data.units === 'inches') {
+    scaleFactor = SCALE; // 1/12
+  } else if (data.units === 'feet') {
+    scaleFactor = 1;
+  } else if (data.units === 'meters' || data.units === 'metres') {
+    scaleFactor = 3.28084;
+  }
+  const toWorld = (x: number, y: number): Vec2 => [(x - cx) * scaleFactor, (y - cy) * scaleFactor];
+  const wallThickness = 0.5; // approx 6 inches
+
+  walls.forEach((w) => {
+    const wallIdx = allWalls.indexOf(w);
+    const label = w.room || 'Wall';
+    const height = (w.height || data.default_wall_height || 11) * scaleFactor;
+    model.walls.push({
+      ref: `walls[${wallIdx}]`,
+      id: w.id !== undefined ? String(w.id) : undefined,
+      start: toWorld(w.start.x, w.start.y),
+      end: toWorld(w.end.x, w.end.y),
+      levelId: '',
+      baseElev: 0,
+      height,
+      thickness: wallThickness,
+      label,
+      wallType: label,
+      color: 0x94a3b8,
+      issues: !w.height && !data.default_wall_height
+        ? [{ kind: 'missing_height', message: `walls[${wallIdx}]: no height or default_wall_height, drawn 11 ft` }]
+        : [],
+    });
+  });
+
+  // Walls indexed by their footprint (source units) so each cutout only meets its neighbours
+  const halfThickness = wallThickness / 2 / scaleFactor;
+  const meanWallLength = walls.reduce((sum, w) => sum + Math.hypot(w.end.x - w.start.x, w.end.y - w.start.y), 0)
+    / Math.max(walls.length, 1);
+  const wallsNear = createBoxIndex<number>(walls.map((w, idx) => ({
+    box: {
+      xmin: Math.min(w.start.x, w.end.x) - halfThickness, xmax: Math.max(w.start.x, w.end.x) + halfThickness,
+      ymin: Math.min(w.start.y, w.end.y) - halfThickness, ymax: Math.max(w.start.y, w.end.y) + halfThickness,
+    },
+    value: idx,
+  })), meanWallLength);
+
+  (data.cutouts || []).forEach((cutout, cutoutIdx) => {
+    if (!cutout.position) return;
+    const { x, y } = cutout.position;
+
+    // Every wall the cutout lies on is cut (shared walls are drawn once per room);
+    // the closest one carries its display mesh
+    const reach = (cutout.width || 3) / 2;
+    const hosts = wallsNear({ xmin: x - reach, xmax: x + reach, ymin: y - reach, ymax: y + reach })
+      .map((idx) => {
+        const w = walls[idx];
+        const wallLen = Math.hypot(w.end.x - w.start.x, w.end.y - w.start.y);
+        return { idx, excess: Math.hypot(x - w.start.x, y - w.start.y) + Math.hypot(x - w.end.x, y - w.end.y) - wallLen };
+      })
+      // If x,y is roughly on the segment
+      .filter(({ excess }) => excess <= 0.1)
+      .sort((a, b) => a.excess - b.excess)
+      .map(({ idx }) => idx);
+    const isWindow = cutout.type === 'window';
+    if (!hosts.length) {
+      model.metadata.issues.push({ kind: 'skipped_opening', message: `cutouts[${cutoutIdx}]: ${isWindow ? 'window' : 'door'} is not on any wall` });
+      return;
+    }
+
+    model.openings.push({
+      kind: isWindow ? 'window' : 'door',
+      at: toWorld(x, y),
+      baseElev: 0,
+      label: isWindow ? 'Window' : 'Door',
+      width: (cutout.width || 3) * scaleFactor,
+      height: (cutout.height || 7) * scaleFactor,
+      sill: isWindow ? (cutout.sill_height || 3) * scaleFactor : 0,
+      hosts,
+      portalOnly: !isWindow,
+    });
+  });
+  return model;
+}
+
+export function boxesToModel(data: OldJsonData, fileName: string): BuildingModel {
+  const model = emptyBuildingModel('boxes', `Applied: ${fileName}`);
+  const walls = data.walls || [];
+  const floors = data.floors || [];
+  const ceilings = data.ceilings || [];
+  const doors = data.doors || [];
+  const windows = data.windows || [];
+  if (!walls.length && !floors.length && !ceilings.length && !doors.length && !windows.length) {
+    throw new Error('No walls, floors, ceilings, doors or windows in file.');
+  }
+
+  const readBox = (bbox: DetectionBox['bbox']) => ({
+    x1: Number(bbox?.x1 ?? 0),
+    y1: Number(bbox?.y1 ?? 0),
+    x2: Number(bbox?.x2 ?? 0),
+    y2: Number(bbox?.y2 ?? 0),
+  });
+
+  // Compute image-space bounds so we can center the building at world origin.
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  [walls, floors, ceilings, doors, windows].forEach((list) => list.forEach((item) => {
+    if (!item.bbox) return;
+    const { x1, y1, x2, y2 } = readBox(item.bbox);
+    minX = Math.min(minX, x1, x2);
+    maxX = Math.max(maxX, x1, x2);
+    minY = Math.min(minY, y1, y2);
+    maxY = Math.max(maxY, y1, y2);
+  }));
+  if (!isFinite(minX)) throw new Error('No bounding boxes in file.');
+  const cx = (minX + maxX) / 2;
+  const cy = (minY + maxY) / 2;
+  const toWorld = (x: number, y: number): Vec2 => [(x - cx) * SCALE, (y - cy) * SCALE];
+
+  // Floors and a tall ceiling (20 ft) as background slabs
+  const defaultCeilingHeight = 20;
+  floors.forEach((f) => {
+    const { x1, y1, x2, y2 } = readBox(f.bbox);
+    const [x, z] = toWorld((x1 + x2) / 2, (y1 + y2) / 2);
+    const outline = rectOutline(x, z, Math.max(1, Math.abs(x2 - x1)) * SCALE, Math.max(1, Math.abs(y2 - y1)) * SCALE);
+    model.slabs.push({ type: 'floor', outline, top: 2, thickness: 2, color: 0x0b1220, opacity: 1, walkable: true });
+  });
+  ceilings.forEach((c) => {
+    const { x1, y1, x2, y2 } = readBox(c.bbox);
+    const [x, z] = toWorld((x1 + x2) / 2, (y1 + y2) / 2);
+    const outline = rectOutline(x, z, Math.max(1, Math.abs(x2 - x1)) * SCALE, Math.max(1, Math.abs(y2 - y1)) * SCALE);
+    model.slabs.push({ type: 'ceiling', outline, top: defaultCeilingHeight, thickness: 1, color: 0xe6eef8, opacity: 0.5, walkable: false });
+  });
+
+  // Orientation from the centerline or polygon, else the detector's angle, else the box's long side
+  const computeAngle = (obj: WallData, widthPx: number, heightPx: number) => {
+    const fromPair = (pts: number[][]) => {
+      const [a, b] = pts;
+      return Array.isArray(a) && Array.isArray(b) ? Math.atan2(b[1] - a[1], b[0] - a[0]) : 0;
+    };
+    if (Array.isArray(obj.centerline_image) && obj.centerline_image.length >= 2) return fromPair(obj.centerline_image);
+    if (Array.isArray(obj.polygon_image) && obj.polygon_image.length >= 2) return fromPair(obj.polygon_image);
+    if (typeof obj._angle_deg === 'number' && !Number.isNaN(obj._angle_deg)) return (obj._angle_deg * Math.PI) / 180;
+    return widthPx >= heightPx ? 0 : Math.PI / 2;
+  };
+
+  // Walls as centerlines, cleaned up so corners and overlaps are not double counted
+  const rawSegments: JoinSegment[] = walls.map((w) => {
+    const { x1, y1, x2, y2 } = readBox(w.bbox);
+    const widthPx = Math.abs(x2 - x1) || 1;
+    const heightPx = Math.abs(y2 - y1) || 1;
+    const angleRad = computeAngle(w, widthPx, heightPx);
+    const lengthPx = Math.max(widthPx, heightPx) || (w._length_px ?? 1);
+    const centerXpx = (x1 + x2) / 2;
+    const centerYpx = (y1 + y2) / 2;
+    const cos = Math.cos(angleRad);
+    const sin = Math.sin(angleRad);
+    const axis = Math.abs(sin) < 1e-3 ? 'h' : Math.abs(cos) < 1e-3 ? 'v' : null;
+    const half = axis === null ? { x: (lengthPx / 2) * cos, y: (lengthPx / 2) * sin }
+      : axis === 'h' ? { x: lengthPx / 2, y: 0 } : { x: 0, y: lengthPx / 2 };
+    return {
+      x1: centerXpx - half.x, y1: centerYpx - half.y,
+      x2: centerXpx + half.x, y2: centerYpx + half.y,
+      thickness: Number(w._thickness_px ?? 10),
+      axis,
+      kind: String(w.class ?? ''),
+      sources: [w],
+    };
+  });
+  const topology = cleanWallTopology(rawSegments);
+  if (topology.merged || topology.snapped) {
+    model.metadata.notes.push(`${topology.merged} wall${topology.merged === 1 ? '' : 's'} merged, ${topology.snapped} end${topology.snapped === 1 ? '' : 's'} snapped`);
+  }
+
+  topology.segments.forEach((seg) => {
+    const w = seg.sources[0];
+    const kind = w.class ?? '';
+    const label = OLD_CLASS_LABEL[kind] || kind || 'Wall';
+    // A merged wall is as trustworthy as its best detection
+    const confidences = seg.sources.map((src) => Number(src.confidence)).filter((c) => Number.isFinite(c));
+    model.walls.push({
+      ref: `${label} ${model.walls.length + 1}`,
+      start: toWorld(seg.x1, seg.y1),
+      end: toWorld(seg.x2, seg.y2),
+      levelId: '',
+      baseElev: 0,
+      // Slightly shorter than the ceiling so there's a small gap for molding
+      height: w._height_ft ?? Math.max(defaultCeilingHeight - 0.5, 1),
+      thickness: Math.max(0.1, seg.thickness * SCALE),
+      label,
+      wallType: label,
+      color: MATERIAL_COLORS[kind] ?? MATERIAL_COLORS.default,
+      confidence: confidences.length ? Math.max(...confidences) : undefined,
+    });
+  });
+
+  const addOpening = (item: DetectionBox, kind: OpeningKind) => {
+    const { x1, y1, x2, y2 } = readBox(item.bbox);
+    model.openings.push({
+      kind,
+      at: toWorld((x1 + x2) / 2, (y1 + y2) / 2),
+      baseElev: 0,
+      label: kind === 'door' ? 'Door' : 'Window',
+      width: Math.max(Math.abs(x2 - x1) || 1, Math.abs(y2 - y1) || 1) * SCALE,
+      height: kind === 'door' ? (item.height_ft ?? 7) : (item.height_ft ?? 4),
+      sill: kind === 'door' ? 0 : (item.sill_ft ?? 3),
+    });
+  };
+  doors.forEach((d) => addOpening(d, 'door'));
+  windows.forEach((wi) => addOpening(wi, 'window'));
+  return model;
+}
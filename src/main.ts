@@ -2,100 +2,100 @@ import './style.css';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
 import { PointerLockControls } from 'three/examples/jsm/controls/PointerLockControls.js';
-import { CSG } from 'three-csg-ts';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
 import { inject } from '@vercel/analytics';
 import defaultHouseJson from '../assets/Small_houseClean.json';
+import {
+  FACADE_LAYERS,
+  FLOOR_JOIST_DEPTH,
+  FORMAT_LOADERS,
+  LABEL_MAP,
+  MATERIAL_COLORS,
+  ROOF_FOLLOWING_TYPES,
+  ROOF_PLAN_LEVEL,
+  TOP_PLATE_DEPTH,
+  findFormatLoader,
+  parseDimensionText,
+  parseFeetInches,
+  readWallAssembly,
+  roofFacetHeightAt,
+  validateFormatSchema,
+} from './loaders';
+import type {
+  BuildingModel,
+  DiagnosticKind,
+  LoadDiagnostic,
+  ModelDeck,
+  ModelDetails,
+  ModelFacade,
+  ModelFraming,
+  ModelLevel,
+  ModelMarkup,
+  ModelMember,
+  ModelOpening,
+  ModelRoofFacet,
+  ModelSlab,
+  ModelSource,
+  ModelStairs,
+  ModelWall,
+  OpeningKind,
+  Vec2,
+  WallAssembly,
+} from './loaders';
+import {
+  buildWallGeometry,
+  clampedOpeningOffset,
+  createWallIndex,
+  wallFootprint,
+  wallFrame,
+} from './walls';
 
 inject();
 
-// ─── OLD FORMAT (walls[]) ────────────────────────────────────────────────────
-interface WallData {
-  class: string;
-  confidence: number;
-  bbox: { x1: number; y1: number; x2: number; y2: number };
-  center: { x: number; y: number };
-  area: number;
-}
-interface OldJsonData {
-  walls: WallData[];
-}
-
-// ─── NEW FORMAT (Paradigm Estimate) ─────────────────────────────────────────
-interface NewRecord {
-  materialType: string;
-  settings: {
-    name?: string;
-    type?: string;
-    pitch?: string;
-    area?: number;
-    linear_total?: number;
-    board_size?: string;
-    oc_spacing?: string;
-    direction?: string;
-    height?: string;
-    floor_level?: string;
-    [key: string]: unknown;
-  };
-  coordinates_real_world: [number, number][];
-  scale_factor_float: number;
-}
-interface NewJsonData {
-  project_id: string;
-  records: NewRecord[];
-}
-
-// ─── Page-format (Plan) JSON ───────────────────────────────────────────────
-interface PlanWallCoordinates {
-  x1: number; y1: number; x2: number; y2: number;
-}
+export { registerFormatLoader } from './loaders';
 
-interface PlanWall {
-  geometry?: { coordinates?: PlanWallCoordinates };
-  properties?: { thickness_inches?: number; wall_height?: string | number; category?: string; floor_label?: string };
-  category?: string;
-}
-
-interface PlanEntities {
-  walls?: PlanWall[];
-  windows_and_doors_floor_plans?: any;
-  roofing?: any;
-}
-
-interface PlanPage {
-  page_index?: number;
-  source_file_id?: string;
-  page_number_in_source_file?: number;
-  entities?: PlanEntities;
-}
-
-interface PlanJson {
-  pages?: PlanPage[];
-  project_metadata?: Record<string, unknown>;
-  project_id?: string | number;
+// ─── Wall openings ───────────────────────────────────────────────────────────
+interface WallOpening {
+  type: OpeningKind;
+  offset: number;         // along the wall from its midpoint (feet, local +X)
+  sill: number;           // bottom of the opening above baseElev (feet)
+  width: number;
+  height: number;
+  displayMesh: THREE.Mesh | null; // glass pane / door leaf that follows the opening
+  linkId?: number;        // shared by the copies of one opening cut through several walls
 }
 
 // ─── Wall registry entry ─────────────────────────────────────────────────────
 interface WallEntry {
   pts: [number, number][];
-  cx: number;
-  cy: number;
   height: number;
   thickness: number;
   length: number;         // current world-space length of the wall (feet)
   baseElev: number;
   label: string;          // settings.name or fallback
   wallType: string;       // categorised type label
-  record: NewRecord;
+  id?: string;            // source wall id shown in the edit modal
+  levelId: string;        // '' when the format has no storeys
+  texture: string;        // WALL_TEXTURE_URLS key or 'none'
   originalColor: number;
   // World-space anchor — used by Apply so position never drifts
   worldPos: THREE.Vector3;
   worldRotY: number;
+  // Doors / windows cut into this wall; geometry is regenerated from this list
+  openings: WallOpening[];
+  // Framing / insulation / sheathing flags (plan-format walls)
+  assembly?: WallAssembly;
+  // OCR'd dimension_text the wall's length is checked against (plan-format walls)
+  dimension?: { text: string; expected: number };
+  // Wall detector confidence 0–1 (old-format walls)
+  confidence?: number;
 }
 
 interface EstimateRow {
   id: number;
   wallLabel: string;
   wallType: string;
+  assembly: string;
   volume: number;
   price: number;
 }
@@ -106,6 +106,7 @@ interface WallEditSnapshot {
   thickness: number;
   colorHex: string;
   textureKey: string;
+  assembly: string;       // wallAssemblyKey of the flags
   baseElev: number;
   worldPos: THREE.Vector3;
   worldRotY: number;
@@ -163,9 +164,10 @@ class WaypointManager {
     ];
   }
 
+  /** `point` is on the floor; the stop is at eye height above it, so upper storeys keep their level. */
   public addCustomStop(point: THREE.Vector3) {
     const p = point.clone();
-    p.y = this.eyeHeight;
+    p.y = point.y + this.eyeHeight;
     this.customPoints.push(p);
   }
 
@@ -214,7 +216,11 @@ class CameraMovement {
     if (!isActive) this.velocity.set(0, 0, 0);
   }
 
-  public update(delta: number, isBlocked: (candidate: THREE.Vector3) => boolean) {
+  public update(
+    delta: number,
+    isBlocked: (candidate: THREE.Vector3) => boolean,
+    groundHeightAt: (candidate: THREE.Vector3) => number = () => 0
+  ) {
     if (!this.active) return;
 
     const forward = new THREE.Vector3();
@@ -238,11 +244,15 @@ class CameraMovement {
       this.velocity.multiplyScalar(decay);
     }
 
+    // Eye height follows the walkable surface (floors, stair treads) under each candidate
+    const settle = (p: THREE.Vector3) => {
+      p.y = groundHeightAt(p) + this.eyeHeight;
+      return p;
+    };
+
     const current = this.camera.position.clone();
-    current.y = this.eyeHeight;
 
-    const candidate = current.clone().addScaledVector(this.velocity, delta);
-    candidate.y = this.eyeHeight;
+    const candidate = settle(current.clone().addScaledVector(this.velocity, delta));
 
     if (!isBlocked(candidate)) {
       this.camera.position.copy(candidate);
@@ -251,11 +261,11 @@ class CameraMovement {
 
     const tryX = current.clone();
     tryX.x = candidate.x;
-    tryX.y = this.eyeHeight;
+    settle(tryX);
 
     const tryZ = current.clone();
     tryZ.z = candidate.z;
-    tryZ.y = this.eyeHeight;
+    settle(tryZ);
 
     if (!isBlocked(tryX)) {
       this.camera.position.copy(tryX);
@@ -293,10 +303,14 @@ class WalkthroughController {
   private readonly getWallMeshes: () => THREE.Mesh[];
   private readonly getDoorMeshes: () => THREE.Mesh[];
   private readonly getFloorMeshes: () => THREE.Mesh[];
+  private readonly getWalkableMeshes: () => THREE.Mesh[];
   private readonly onGuidedStateChange: (state: GuidedState) => void;
   private readonly eyeHeight = 5.5;
   private collisionBoxes: THREE.Box3[] = [];
   private doorBoxes: THREE.Box3[] = [];
+  private walkableMeshes: THREE.Mesh[] = [];
+  private readonly groundRaycaster = new THREE.Raycaster();
+  private readonly maxStepUp = 1.2; // feet — tallest step free mode climbs
   private readonly markerGroup = new THREE.Group();
 
   private mode: 'none' | 'guided' | 'free' = 'none';
@@ -327,6 +341,7 @@ class WalkthroughController {
     getWallMeshes: () => THREE.Mesh[],
     getDoorMeshes: () => THREE.Mesh[],
     getFloorMeshes: () => THREE.Mesh[],
+    getWalkableMeshes: () => THREE.Mesh[],
     onGuidedStateChange: (state: GuidedState) => void
   ) {
     this.camera = camera;
@@ -337,6 +352,7 @@ class WalkthroughController {
     this.getWallMeshes = getWallMeshes;
     this.getDoorMeshes = getDoorMeshes;
     this.getFloorMeshes = getFloorMeshes;
+    this.getWalkableMeshes = getWalkableMeshes;
     this.onGuidedStateChange = onGuidedStateChange;
     this.orbitDefaults = {
       rotate: orbitControls.enableRotate,
@@ -370,6 +386,7 @@ class WalkthroughController {
       b.max.y = Infinity;
       return b;
     });
+    this.walkableMeshes = this.getWalkableMeshes();
     this.updateStopMarkers();
   }
 
@@ -461,8 +478,11 @@ class WalkthroughController {
     }
 
     if (this.mode === 'free') {
-      this.camera.position.y = this.eyeHeight;
-      this.movement.update(delta, (candidate) => this.isBlocked(candidate));
+      this.movement.update(
+        delta,
+        (candidate) => this.isBlocked(candidate),
+        (candidate) => this.groundHeightAt(candidate)
+      );
     }
   }
 
@@ -488,9 +508,7 @@ class WalkthroughController {
     const hits = raycaster.intersectObjects(floorMeshes, false);
     if (!hits.length) return false;
 
-    const p = hits[0].point.clone();
-    p.y = this.eyeHeight;
-    this.waypointManager.addCustomStop(p);
+    this.waypointManager.addCustomStop(hits[0].point);
     this.updateStopMarkers();
     this.emitGuidedState();
     return true;
@@ -514,7 +532,7 @@ class WalkthroughController {
       this.stop();
       return false;
     }
-    this.guidedPoints = points.map((p) => p.clone().setY(this.eyeHeight));
+    this.guidedPoints = points.map((p) => p.clone());
     this.curve = new THREE.CatmullRomCurve3(this.guidedPoints, false, 'centripetal', 0.35);
     this.curve.arcLengthDivisions = 200;
     this.guidedStopTs = this.computeStopTs(this.guidedPoints, this.curve);
@@ -534,7 +552,7 @@ class WalkthroughController {
   private startFree(): boolean {
     const points = this.waypointManager.getWaypoints();
     if (points.length > 0) this.camera.position.copy(points[0]);
-    this.camera.position.y = this.eyeHeight;
+    this.camera.position.y = this.groundHeightAt(this.camera.position) + this.eyeHeight;
     this.movement.setActive(true);
     this.pointerControls.lock();
     this.emitGuidedState();
@@ -573,7 +591,7 @@ class WalkthroughController {
     const point = this.curve.getPointAt(clampedT);
     const lookT = Math.max(0, Math.min(1, clampedT + (direction * 0.003)));
     const tangentPoint = this.curve.getPointAt(lookT);
-    this.camera.position.set(point.x, this.eyeHeight, point.z);
+    this.camera.position.copy(point);
     const baseForward = tangentPoint.clone().sub(this.camera.position).normalize();
     const lookOffset = new THREE.Vector3(0, 0, -1).applyEuler(new THREE.Euler(this.guidedPitch, this.guidedYaw, 0, 'YXZ'));
     const mixedForward = baseForward.clone().add(lookOffset.multiplyScalar(0.85)).normalize();
@@ -640,7 +658,8 @@ class WalkthroughController {
           metalness: 0.12,
         })
       );
-      marker.position.set(point.x, 0.2, point.z);
+      // Just above the floor the stop was picked on
+      marker.position.set(point.x, point.y - this.eyeHeight + 0.2, point.z);
       marker.userData.walkthroughMarker = true;
       this.markerGroup.add(marker);
     });
@@ -658,6 +677,18 @@ class WalkthroughController {
     });
   }
 
+  /**
+   * Height of the walkable surface (floor or stair tread) under an eye-level
+   * point, ignoring anything more than one step above the current feet.
+   */
+  private groundHeightAt(point: THREE.Vector3): number {
+    if (!this.walkableMeshes.length) return 0;
+    const origin = new THREE.Vector3(point.x, point.y - this.eyeHeight + this.maxStepUp, point.z);
+    this.groundRaycaster.set(origin, new THREE.Vector3(0, -1, 0));
+    const hits = this.groundRaycaster.intersectObjects(this.walkableMeshes, false);
+    return hits.length ? hits[0].point.y : 0;
+  }
+
   private isBlocked(candidate: THREE.Vector3): boolean {
     const nearDoorPortal = this.doorBoxes.some((doorBox) => doorBox.distanceToPoint(candidate) < 0.75);
     if (nearDoorPortal) return false;
@@ -672,30 +703,7 @@ class WalkthroughController {
   }
 }
 
-// ─── SCALE helpers ───────────────────────────────────────────────────────────
-const SCALE = 1 / 12; // inches → feet
-
-const MATERIAL_COLORS: Record<string, number> = {
-  roof_system: 0xf97316,
-  eave_length: 0x22d3ee,
-  ridge_length: 0xa855f7,
-  hip_length: 0xfbbf24,
-  valley_length: 0x60a5fa,
-  gable_length: 0x4ade80,
-  wall: 0x94a3b8,
-  default: 0xffffff,
-};
-
-const LABEL_MAP: Record<string, string> = {
-  roof_system: 'Roof Panel / Rafter',
-  eave_length: 'Eave',
-  ridge_length: 'Ridge',
-  hip_length: 'Hip',
-  valley_length: 'Valley',
-  gable_length: 'Gable',
-  wall: 'Wall',
-};
-
+// ─── Wall textures ───────────────────────────────────────────────────────────
 const WALL_TEXTURE_URLS: Record<string, string> = {
   animalgrey: new URL('../assets/WallTexture/animalgrey.jpg', import.meta.url).href,
   courtyard: new URL('../assets/WallTexture/courtyard.jpg', import.meta.url).href,
@@ -714,114 +722,150 @@ const WALL_TYPE_COLORS: Record<string, string> = {
   'Other Wall': '#94a3b8',
 };
 
-// ─── ELEVATION helpers ───────────────────────────────────────────────────────
-const ELEVATIONS: Record<string, number> = {
-  roof_system: 0,
-  eave_length: 0.05,
-  valley_length: -0.05,
-  hip_length: 0.15,
-  ridge_length: 0.3,
-  gable_length: 0.1,
-  default: 0,
+const OPENING_HEAD_HEIGHT = 6 + 8 / 12;  // door and window heads line up (feet)
+const WINDOW_DEFAULT_HEIGHT = 4;
+
+// ─── Wall assembly helpers ───────────────────────────────────────────────────
+const WALL_ASSEMBLY_FLAGS: Array<{ key: keyof WallAssembly; label: string; priceFactor: number }> = [
+  { key: 'doubleStuds', label: 'Double studs', priceFactor: 0.3 },
+  { key: 'staggeredStuds', label: 'Staggered studs', priceFactor: 0.2 },
+  { key: 'insulation', label: 'Insulated', priceFactor: 0.25 },
+  { key: 'fireRated', label: 'Fire-rated', priceFactor: 0.4 },
+];
+
+const WALL_ASSEMBLY_COLORS = {
+  sheathing: '#dc2626',
+  insulation: '#facc15',
+  stud: '#78350f',
+  core: '#e5e7eb',
 };
 
-const FLOOR_ELEVATIONS: Record<string, number> = {
-  'GARAGE': -1.0,
-  'MAIN FLOOR': 0.0,
-  'PORCH WALL': -0.5,
-  'SECOND FLOOR': 9.0,
-  'default': 0.0,
-};
+function hasWallAssembly(assembly: WallAssembly | undefined): assembly is WallAssembly {
+  return !!assembly && WALL_ASSEMBLY_FLAGS.some((f) => assembly[f.key]);
+}
 
-// ─── Plan helpers ───────────────────────────────────────────────────────────
-function parseFeetInches(raw: unknown, fallback = 9): number {
-  if (typeof raw === 'number' && Number.isFinite(raw)) return raw;
-  if (typeof raw !== 'string') return fallback;
+function describeWallAssembly(assembly: WallAssembly | undefined): string {
+  if (!hasWallAssembly(assembly)) return 'Standard';
+  return WALL_ASSEMBLY_FLAGS.filter((f) => assembly[f.key]).map((f) => f.label).join(', ');
+}
 
-  const text = raw.trim();
-  if (!text) return fallback;
+/** Estimate multiplier: each upgrade adds its share on top of the bare wall volume price. */
+function wallAssemblyPriceFactor(assembly: WallAssembly | undefined): number {
+  if (!assembly) return 1;
+  return WALL_ASSEMBLY_FLAGS.reduce((factor, f) => factor + (assembly[f.key] ? f.priceFactor : 0), 1);
+}
 
-  // Extract feet and inches (with optional fractions)
-  const feetMatch = text.match(/(-?\d+)\s*(?:'|ft)/i);
-  const inchMatch = text.match(/(-?[\d\.]+(?:\s*\d+\/\d+)?)\s*(?:"|in)/i);
+function wallAssemblyKey(assembly: WallAssembly): string {
+  return WALL_ASSEMBLY_FLAGS.map((f) => (assembly[f.key] ? '1' : '0')).join('');
+}
 
-  let feet = feetMatch ? parseFloat(feetMatch[1]) : 0;
+function wallAssemblyFromKey(key: string): WallAssembly {
+  const assembly = readWallAssembly(undefined);
+  WALL_ASSEMBLY_FLAGS.forEach((f, i) => { assembly[f.key] = key[i] === '1'; });
+  return assembly;
+}
 
-  let inches = 0;
-  if (inchMatch) {
-    const rawIn = inchMatch[1].replace(/\s+/g, '');
-    if (rawIn.includes('/')) {
-      const [whole, frac] = rawIn.split(/(?=\d+\/)/);
-      const wholeIn = whole ? parseFloat(whole) : 0;
-      const [num, den] = (frac || '0/1').split('/').map((v) => parseFloat(v));
-      inches = wholeIn + (den ? num / den : 0);
-    } else {
-      inches = parseFloat(rawIn) || 0;
-    }
-  } else if (!feetMatch && /^-?\d+(\.\d+)?$/.test(text)) {
-    // Plain number → feet
-    feet = parseFloat(text);
-  }
+// ─── Dimension check helpers ─────────────────────────────────────────────────
+// A wall is flagged when its drawn length is off by more than the larger of these
+const DIMENSION_TOLERANCE_FT = 0.5;
+const DIMENSION_TOLERANCE_RATIO = 0.05;
+const DIMENSION_MISMATCH_EMISSIVE = 0xdc2626;
 
-  return feet + inches / 12 || fallback;
+function dimensionTolerance(expected: number): number {
+  return Math.max(DIMENSION_TOLERANCE_FT, expected * DIMENSION_TOLERANCE_RATIO);
 }
 
-function normalizePlanLabel(category?: string): string {
-  if (!category) return 'Wall';
-  const c = category.toLowerCase();
-  if (c.includes('exterior')) return 'Exterior Wall';
-  if (c.includes('interior')) return 'Interior Wall';
-  if (c.includes('perimeter')) return 'Perimeter Wall';
-  if (c.includes('foundation')) return 'Foundation Wall';
-  if (c.includes('knee')) return 'Knee Wall';
-  return 'Wall';
+// ─── Load diagnostics ────────────────────────────────────────────────────────
+const DIAGNOSTIC_LABELS: Record<DiagnosticKind, string> = {
+  schema: 'Schema problems',
+  nan_coordinates: 'Non-finite coordinates',
+  skipped_wall: 'Skipped walls',
+  skipped_opening: 'Skipped openings',
+  missing_height: 'Missing heights',
+  unknown_material: 'Unknown materialTypes',
+  unknown_class: 'Unknown opening classes',
+  empty_page: 'Empty pages',
+};
+
+const DIAGNOSTIC_ROW_LIMIT = 50; // rows listed per kind; the count covers the rest
+
+// ─── Floor framing helpers ───────────────────────────────────────────────────
+/**
+ * Intersections of the line `axis = c` with a polygon, paired into inside
+ * spans along the other axis. Works for concave outlines.
+ */
+function polygonScanSpans(pts: [number, number][], axis: 'x' | 'z', c: number): [number, number][] {
+  const hits: number[] = [];
+  const a = axis === 'x' ? 0 : 1;
+  const o = axis === 'x' ? 1 : 0;
+  for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) {
+    const p = pts[j];
+    const q = pts[i];
+    if ((p[a] > c) === (q[a] > c)) continue;
+    const t = (c - p[a]) / (q[a] - p[a]);
+    hits.push(p[o] + (q[o] - p[o]) * t);
+  }
+  hits.sort((m, n) => m - n);
+  const spans: [number, number][] = [];
+  for (let i = 0; i + 1 < hits.length; i += 2) spans.push([hits[i], hits[i + 1]]);
+  return spans;
 }
 
-type OpeningBox = { xmin: number; xmax: number; ymin: number; ymax: number };
+/** Box between two plan points with its top edge at `topY`, as baked geometry. */
+function memberBoxGeometry(a: [number, number], b: [number, number], topY: number, width: number, depth: number): THREE.BufferGeometry | null {
+  const dx = b[0] - a[0];
+  const dz = b[1] - a[1];
+  const length = Math.hypot(dx, dz);
+  if (length < 0.001) return null;
+  const geo = new THREE.BoxGeometry(length, depth, width);
+  geo.rotateY(-Math.atan2(dz, dx));
+  geo.translate((a[0] + b[0]) / 2, topY - depth / 2, (a[1] + b[1]) / 2);
+  return geo;
+}
 
-function toOpeningBox(box: any): OpeningBox | null {
-  if (!box) return null;
-  if (Array.isArray(box) && box.length === 4 && box.every((v) => typeof v === 'number')) {
-    const [xmin, ymin, xmax, ymax] = box;
-    if ([xmin, ymin, xmax, ymax].some((v) => !Number.isFinite(v))) return null;
-    return { xmin, xmax, ymin, ymax };
-  }
+// ─── Stair helpers ───────────────────────────────────────────────────────────
+const STAIR_TREAD_RUN = 10 / 12;    // feet (IRC minimum tread depth)
+
+// ─── Facade layer helpers ────────────────────────────────────────────────────
+const EXTERIOR_WALL_TYPES = new Set(['Perimeter Wall', 'Exterior Wall']);
+
+/** Nearest wall to a plan point, with the point's offset along it from the wall midpoint. */
+function nearestWallEntry(entries: WallEntry[], x: number, z: number): { entry: WallEntry; along: number; dist: number } | null {
+  let best: { entry: WallEntry; along: number; dist: number } | null = null;
+  entries.forEach((entry) => {
+    const dx = Math.cos(entry.worldRotY);
+    const dz = Math.sin(-entry.worldRotY);
+    const along = (x - entry.worldPos.x) * dx + (z - entry.worldPos.z) * dz;
+    const clamped = Math.max(-entry.length / 2, Math.min(entry.length / 2, along));
+    const dist = Math.hypot(entry.worldPos.x + clamped * dx - x, entry.worldPos.z + clamped * dz - z);
+    if (!best || dist < best.dist) best = { entry, along: clamped, dist };
+  });
+  return best;
+}
 
-  if (Array.isArray(box) && box.length === 4 && Array.isArray(box[0])) {
-    const xs: number[] = [];
-    const ys: number[] = [];
-    box.forEach((pt: any) => {
-      if (Array.isArray(pt) && pt.length >= 2) {
-        xs.push(Number(pt[0]));
-        ys.push(Number(pt[1]));
-      }
-    });
-    if (!xs.length || !ys.length) return null;
-    if (!xs.every(Number.isFinite) || !ys.every(Number.isFinite)) return null;
-    return { xmin: Math.min(...xs), xmax: Math.max(...xs), ymin: Math.min(...ys), ymax: Math.max(...ys) };
-  }
-  return null;
+/** The walls on a level, or every wall when the level is unset or has none. */
+function wallsOnLevel(entries: WallEntry[], levelId: string): WallEntry[] {
+  const onLevel = levelId ? entries.filter((entry) => entry.levelId === levelId) : [];
+  return onLevel.length ? onLevel : entries;
 }
 
-// ─── Categorise a wall's settings.type into a display label ──────────────────
-function categoriseWallType(settings: NewRecord['settings']): string {
-  const t = (settings.type || settings.name || '').toUpperCase();
-  if (t.includes('PERIMETER')) return 'Perimeter Wall';
-  if (t.includes('INTERIOR')) return 'Interior Wall';
-  if (t.includes('FOUNDATION')) return 'Foundation Wall';
-  if (t.includes('KNEE')) return 'Knee Wall';
-  if (t.includes('EXTERIOR')) return 'Exterior Wall';
-  return 'Other Wall';
+/** Unit normal of a wall's face pointing away from the building centre (the origin). */
+function wallOutwardNormal(entry: WallEntry): THREE.Vector3 {
+  const normal = new THREE.Vector3(Math.sin(entry.worldRotY), 0, Math.cos(entry.worldRotY));
+  if (normal.x * entry.worldPos.x + normal.z * entry.worldPos.z < 0) normal.negate();
+  return normal;
 }
 
-// ─── Old-format class → display label ────────────────────────────────────────
-const OLD_CLASS_LABEL: Record<string, string> = {
-  perimeter_wall: 'Perimeter Wall',
-  interior_wall: 'Interior Wall',
-  foundation_wall: 'Foundation Wall',
-  block_foundation_wall: 'Foundation Wall',
-  knee_wall: 'Knee Wall',
-};
+// ─── Deck helpers ────────────────────────────────────────────────────────────
+const DECK_BOARD_WIDTH = 5.5 / 12;
+const DECK_BOARD_GAP = 0.25 / 12;
+const DECK_BOARD_THICKNESS = 1 / 12;
+const RAILING_HEIGHT = 36 / 12;
+const RAILING_POST_SPACING = 6;          // feet, max between posts
+const BALUSTER_SPACING = 5.5 / 12;       // 1.5" baluster + 4" max clear gap
+
+// ─── Building model ──────────────────────────────────────────────────────────
+const MODEL_OPENING_REACH = 5; // feet; openings farther than this from every wall are dropped
 
 class HouseViewer {
   private scene: THREE.Scene;
@@ -842,16 +886,26 @@ class HouseViewer {
   private estimateRows: EstimateRow[] = [];
   private textureLoader = new THREE.TextureLoader();
   private wallTextureCache = new Map<string, THREE.Texture>();
+  private wallAssemblyTextureCache = new Map<string, THREE.CanvasTexture>();
   private activeModalTextureKey = 'none';
   private readonly maxHistorySize = 20;
   private undoStack: WallEditHistoryEntry[] = [];
   private redoStack: WallEditHistoryEntry[] = [];
   private sourceGroups = new Map<string, THREE.Mesh[]>();
   private sourceVisibility = new Map<string, boolean>();
-  private pageGroups = new Map<string, { id: string; meshes: THREE.Mesh[]; roofMeshes: THREE.Mesh[]; sourceId: string; label: string }>();
+  private pageGroups = new Map<string, { id: string; meshes: THREE.Mesh[]; roofMeshes: THREE.Mesh[]; sourceId: string; label: string; levelId: string }>();
+  private nextOpeningLinkId = 1;
+  // Storeys of the loaded model, shared by the assemblies and levels panels
+  private levels = new Map<string, ModelLevel>();
+  private hiddenLevels = new Set<string>();
+  // Old-format walls below this detector confidence are hidden and left out of the estimate
+  private confidenceThreshold = 0;
+  private confidenceRamp = false;
   private pageVisibility = new Map<string, boolean>();
   private pageRoofVisibility = new Map<string, boolean>();
   private assemblyCollapsed = false;
+  // Schema and renderer warnings for the last loaded file
+  private loadDiagnostics: LoadDiagnostic[] = [];
 
   // ─── Interactive Cutout Placement ───────────────────────────────────────
   private placementMode: 'none' | 'door' | 'window' = 'none';
@@ -863,6 +917,14 @@ class HouseViewer {
   private cutterThickness = 2.0;
   private cutterSill = 0;
 
+  // ─── Placed opening editing ─────────────────────────────────────────────
+  private selectedOpening: { wall: THREE.Mesh; opening: WallOpening } | null = null;
+  private hiddenFacadeTypes = new Set<string>();
+  // Scale calibration: two picked points and their markers while active
+  private calibration: { points: THREE.Vector3[]; markers: THREE.Object3D[] } | null = null;
+  private calibrationScale = 1;
+  private projectKey = '';
+
   constructor() {
     this.scene = new THREE.Scene();
     // White background as requested
@@ -890,6 +952,7 @@ class HouseViewer {
       () => this.getWallMeshes(),
       () => this.getDoorOpeningMeshes(),
       () => this.getFloorMeshes(),
+      () => this.getWalkableMeshes(),
       (state) => this.updateGuidedNavUI(state)
     );
 
@@ -899,6 +962,11 @@ class HouseViewer {
     this.initModalListeners();
     this.initEstimateListeners();
     this.initAssemblyPanel();
+    this.initLevelsPanel();
+    this.initDimensionPanel();
+    this.initConfidencePanel();
+    this.initDiagnosticsDrawer();
+    this.initCalibrationListeners();
     this.loadDataFromJson(defaultHouseJson, 'Small_houseClean.json');
     this.animate();
   }
@@ -977,6 +1045,18 @@ class HouseViewer {
     });
     document.getElementById('cutout-btn-apply')?.addEventListener('click', () => this.applyCutout());
 
+    // Listen to opening edit toolbar
+    const openingPosX = document.getElementById('opening-pos-x') as HTMLInputElement;
+    const openingPosY = document.getElementById('opening-pos-y') as HTMLInputElement;
+    const openingWidth = document.getElementById('opening-width-input') as HTMLInputElement;
+    const openingHeight = document.getElementById('opening-height-input') as HTMLInputElement;
+    [openingPosX, openingPosY, openingWidth, openingHeight].forEach((input) => {
+      input.addEventListener('input', () => this.updateSelectedOpening());
+      input.addEventListener('change', () => this.walkthroughController.syncEnvironment());
+    });
+    document.getElementById('opening-btn-delete')?.addEventListener('click', () => this.deleteSelectedOpening());
+    document.getElementById('opening-btn-done')?.addEventListener('click', () => this.deselectOpening());
+
     document.addEventListener('keydown', (e) => this.handleUndoRedoShortcuts(e));
 
     const startWalkBtn = document.getElementById('start-walkthrough-btn') as HTMLButtonElement;
@@ -1021,6 +1101,7 @@ class HouseViewer {
     wallEditToggle.addEventListener('change', () => {
       this.wallEditEnabled = wallEditToggle.checked;
       if (!this.wallEditEnabled && this.selectedWall) this.closeModal();
+      if (!this.wallEditEnabled) this.deselectOpening();
     });
   }
 
@@ -1072,14 +1153,16 @@ class HouseViewer {
 
   private buildEstimateRows(): EstimateRow[] {
     let i = 1;
-    return Array.from(this.wallRegistry.values()).map((entry) => {
+    return Array.from(this.wallRegistry.entries()).filter(([mesh]) => !mesh.userData.belowConfidence).map(([, entry]) => {
       const volume = entry.length * entry.height * entry.thickness;
       return {
         id: i++,
         wallLabel: entry.label || `Wall ${i - 1}`,
         wallType: entry.wallType || 'Wall',
+        assembly: describeWallAssembly(entry.assembly),
         volume,
-        price: volume, // default: price equals volume in USD as requested
+        // default: price equals volume in USD, marked up for framing / insulation / sheathing
+        price: volume * wallAssemblyPriceFactor(entry.assembly),
       };
     });
   }
@@ -1099,7 +1182,7 @@ class HouseViewer {
 
   private updateEstimateButtonState() {
     const openBtn = document.getElementById('show-estimate-btn') as HTMLButtonElement;
-    const hasWalls = this.wallRegistry.size > 0;
+    const hasWalls = Array.from(this.wallRegistry.keys()).some((mesh) => !mesh.userData.belowConfidence);
     openBtn.disabled = !hasWalls;
     openBtn.style.opacity = hasWalls ? '1' : '0.5';
     openBtn.style.cursor = hasWalls ? 'pointer' : 'not-allowed';
@@ -1129,6 +1212,8 @@ class HouseViewer {
       labelTd.textContent = row.wallLabel;
       const typeTd = document.createElement('td');
       typeTd.textContent = row.wallType;
+      const assemblyTd = document.createElement('td');
+      assemblyTd.textContent = row.assembly;
       const volumeTd = document.createElement('td');
       volumeTd.textContent = row.volume.toFixed(2);
       const priceTd = document.createElement('td');
@@ -1144,6 +1229,7 @@ class HouseViewer {
       tr.appendChild(idTd);
       tr.appendChild(labelTd);
       tr.appendChild(typeTd);
+      tr.appendChild(assemblyTd);
       tr.appendChild(volumeTd);
       tr.appendChild(priceTd);
       tbody.appendChild(tr);
@@ -1198,80 +1284,136 @@ class HouseViewer {
       children.className = 'assembly-children';
       children.dataset.children = sourceId;
 
-      // Pages under this source
+      // Pages under this source, grouped into storeys (roof sheets last)
       const pages = Array.from(this.pageGroups.values()).filter((p) => p.sourceId === sourceId);
-      pages.forEach((page) => {
-        const pageRow = document.createElement('div');
-        pageRow.className = 'assembly-row';
-        pageRow.style.paddingLeft = '0.25rem';
-
-        const pageToggle = document.createElement('button');
-        pageToggle.type = 'button';
-        pageToggle.className = 'assembly-page-toggle';
-        pageToggle.dataset.pageId = page.id;
-        pageToggle.textContent = '▸';
-
-        const pageCheckbox = document.createElement('input');
-        pageCheckbox.type = 'checkbox';
-        pageCheckbox.dataset.pageId = page.id;
-        pageCheckbox.dataset.sourceId = sourceId;
-        const pageMeshes = page.meshes;
-        const pageVis = this.pageVisibility.get(page.id);
-        pageCheckbox.checked = pageVis !== false && pageMeshes.every((m) => m.visible !== false);
-        const roofMeshes = page.roofMeshes || [];
-
-        const pageLabel = document.createElement('span');
-        pageLabel.className = 'assembly-label';
-        pageLabel.textContent = page.label;
-
-        const pageCount = document.createElement('span');
-        pageCount.className = 'assembly-count';
-        const wallText = `${pageMeshes.length} wall${pageMeshes.length === 1 ? '' : 's'}`;
-        const roofText = roofMeshes.length ? `, ${roofMeshes.length} roof edge${roofMeshes.length === 1 ? '' : 's'}` : '';
-        pageCount.textContent = wallText + roofText;
-
-        pageRow.append(pageToggle, pageCheckbox, pageLabel, pageCount);
-        children.appendChild(pageRow);
-
-        // Walls list (collapsed by default)
-        const pageChildren = document.createElement('div');
-        pageChildren.className = 'assembly-page-children';
-        pageChildren.dataset.pageChildren = page.id;
-
-        pageMeshes.forEach((mesh, idx) => {
-          const leaf = document.createElement('div');
-          leaf.className = 'assembly-leaf';
-          const entry = this.wallRegistry.get(mesh);
-          leaf.textContent = entry?.label || `Wall ${idx + 1}`;
-          pageChildren.appendChild(leaf);
-        });
-
-        if (roofMeshes.length) {
-          const roofRow = document.createElement('div');
-          roofRow.className = 'assembly-row';
-          roofRow.style.paddingLeft = '0.35rem';
-
-          const roofCheckbox = document.createElement('input');
-          roofCheckbox.type = 'checkbox';
-          roofCheckbox.dataset.pageId = page.id;
-          roofCheckbox.dataset.sourceId = sourceId;
-          roofCheckbox.dataset.roof = 'true';
-          const roofVis = this.pageRoofVisibility.get(page.id);
-          roofCheckbox.checked = roofVis !== false && roofMeshes.every((m) => m.visible !== false);
-
-          const roofLabel = document.createElement('span');
-          roofLabel.className = 'assembly-label';
-          roofLabel.textContent = 'Roof';
-
-          const roofCount = document.createElement('span');
-          roofCount.className = 'assembly-count';
-          roofCount.textContent = `${roofMeshes.length}`;
-
-          roofRow.append(roofCheckbox, roofLabel, roofCount);
-          pageChildren.appendChild(roofRow);
+      const levelIds = Array.from(new Set(pages.map((p) => p.levelId))).sort((a, b) =>
+        (this.levels.get(a)?.order ?? Infinity) - (this.levels.get(b)?.order ?? Infinity));
+
+      levelIds.forEach((levelId) => {
+        const level = this.levels.get(levelId);
+        const levelPages = pages.filter((p) => p.levelId === levelId);
+        const levelKey = `${sourceId}::${levelId}`;
+        const levelWalls = levelPages.reduce((sum, p) => sum + p.meshes.length, 0);
+
+        const levelRow = document.createElement('div');
+        levelRow.className = 'assembly-row assembly-level-row';
+
+        const levelToggle = document.createElement('button');
+        levelToggle.type = 'button';
+        levelToggle.className = 'assembly-level-toggle';
+        levelToggle.dataset.levelKey = levelKey;
+        levelToggle.textContent = '▾';
+
+        const levelCheckbox = document.createElement('input');
+        levelCheckbox.type = 'checkbox';
+        levelCheckbox.dataset.sourceId = sourceId;
+        levelCheckbox.dataset.levelId = levelId;
+        levelCheckbox.checked = levelPages.every((p) => this.pageVisibility.get(p.id) !== false);
+
+        const levelLabel = document.createElement('span');
+        levelLabel.className = 'assembly-label';
+        levelLabel.textContent = level?.label ?? 'Roof';
+
+        levelRow.append(levelToggle, levelCheckbox, levelLabel);
+        if (level) {
+          // Storey elevation in feet; edits restack that level's walls
+          const elevInput = document.createElement('input');
+          elevInput.type = 'number';
+          elevInput.step = '0.5';
+          elevInput.className = 'assembly-level-elev';
+          elevInput.title = 'Level elevation (ft)';
+          elevInput.value = String(+level.elevation.toFixed(2));
+          elevInput.dataset.levelId = levelId;
+          levelRow.appendChild(elevInput);
         }
 
-        children.appendChild(pageChildren);
+        const levelCount = document.createElement('span');
+        levelCount.className = 'assembly-count';
+        levelCount.textContent = `${levelWalls} wall${levelWalls === 1 ? '' : 's'}`;
+        levelRow.appendChild(levelCount);
+        children.appendChild(levelRow);
+
+        const levelChildren = document.createElement('div');
+        levelChildren.className = 'assembly-level-children';
+        levelChildren.dataset.levelChildren = levelKey;
+        children.appendChild(levelChildren);
+
+        levelPages.forEach((page) => {
+          const pageRow = document.createElement('div');
+          pageRow.className = 'assembly-row';
+          pageRow.style.paddingLeft = '0.25rem';
+
+          const pageToggle = document.createElement('button');
+          pageToggle.type = 'button';
+          pageToggle.className = 'assembly-page-toggle';
+          pageToggle.dataset.pageId = page.id;
+          pageToggle.textContent = '▸';
+
+          const pageCheckbox = document.createElement('input');
+          pageCheckbox.type = 'checkbox';
+          pageCheckbox.dataset.pageId = page.id;
+          pageCheckbox.dataset.sourceId = sourceId;
+          const pageMeshes = page.meshes;
+          const pageVis = this.pageVisibility.get(page.id);
+          pageCheckbox.checked = pageVis !== false && pageMeshes.every((m) => m.visible !== false);
+          const roofMeshes = page.roofMeshes || [];
+
+          const pageLabel = document.createElement('span');
+          pageLabel.className = 'assembly-label';
+          pageLabel.textContent = page.label;
+
+          const pageCount = document.createElement('span');
+          pageCount.className = 'assembly-count';
+          const wallText = `${pageMeshes.length} wall${pageMeshes.length === 1 ? '' : 's'}`;
+          const facetCount = roofMeshes.filter((m) => m.userData.roofFacet).length;
+          const edgeCount = roofMeshes.length - facetCount;
+          const roofText = (facetCount ? `, ${facetCount} roof facet${facetCount === 1 ? '' : 's'}` : '')
+            + (edgeCount ? `, ${edgeCount} roof edge${edgeCount === 1 ? '' : 's'}` : '');
+          pageCount.textContent = wallText + roofText;
+
+          pageRow.append(pageToggle, pageCheckbox, pageLabel, pageCount);
+          levelChildren.appendChild(pageRow);
+
+          // Walls list (collapsed by default)
+          const pageChildren = document.createElement('div');
+          pageChildren.className = 'assembly-page-children';
+          pageChildren.dataset.pageChildren = page.id;
+
+          pageMeshes.forEach((mesh, idx) => {
+            const leaf = document.createElement('div');
+            leaf.className = 'assembly-leaf';
+            const entry = this.wallRegistry.get(mesh);
+            leaf.textContent = entry?.label || `Wall ${idx + 1}`;
+            pageChildren.appendChild(leaf);
+          });
+
+          if (roofMeshes.length) {
+            const roofRow = document.createElement('div');
+            roofRow.className = 'assembly-row';
+            roofRow.style.paddingLeft = '0.35rem';
+
+            const roofCheckbox = document.createElement('input');
+            roofCheckbox.type = 'checkbox';
+            roofCheckbox.dataset.pageId = page.id;
+            roofCheckbox.dataset.sourceId = sourceId;
+            roofCheckbox.dataset.roof = 'true';
+            const roofVis = this.pageRoofVisibility.get(page.id);
+            roofCheckbox.checked = roofVis !== false && roofMeshes.every((m) => m.visible !== false);
+
+            const roofLabel = document.createElement('span');
+            roofLabel.className = 'assembly-label';
+            roofLabel.textContent = 'Roof';
+
+            const roofCount = document.createElement('span');
+            roofCount.className = 'assembly-count';
+            roofCount.textContent = `${roofMeshes.length}`;
+
+            roofRow.append(roofCheckbox, roofLabel, roofCount);
+            pageChildren.appendChild(roofRow);
+          }
+
+          levelChildren.appendChild(pageChildren);
+        });
       });
 
       item.append(row, children);
@@ -1279,7 +1421,7 @@ class HouseViewer {
     });
   }
 
-  private registerWallToSource(mesh: THREE.Mesh, sourceId: string, pageId: string, pageLabel: string) {
+  private registerWallToSource(mesh: THREE.Mesh, sourceId: string, pageId: string, pageLabel: string, levelId = 'MAIN FLOOR') {
     const sourceVisible = this.sourceVisibility.get(sourceId);
     const pageVisible = this.pageVisibility.get(pageId);
     if (sourceVisible === false || pageVisible === false) mesh.visible = false;
@@ -1288,12 +1430,12 @@ class HouseViewer {
     list.push(mesh);
     this.sourceGroups.set(sourceId, list);
 
-    const pageEntry = this.pageGroups.get(pageId) || { id: pageId, meshes: [], roofMeshes: [], sourceId, label: pageLabel };
+    const pageEntry = this.pageGroups.get(pageId) || { id: pageId, meshes: [], roofMeshes: [], sourceId, label: pageLabel, levelId };
     pageEntry.meshes.push(mesh);
     this.pageGroups.set(pageId, pageEntry);
   }
 
-  private registerRoofToSource(mesh: THREE.Mesh, sourceId: string, pageId: string, pageLabel: string) {
+  private registerRoofToSource(mesh: THREE.Mesh, sourceId: string, pageId: string, pageLabel: string, levelId = ROOF_PLAN_LEVEL) {
     const sourceVisible = this.sourceVisibility.get(sourceId);
     const pageVisible = this.pageRoofVisibility.get(pageId);
     if (sourceVisible === false || pageVisible === false) mesh.visible = false;
@@ -1302,7 +1444,7 @@ class HouseViewer {
     list.push(mesh);
     this.sourceGroups.set(sourceId, list);
 
-    const pageEntry = this.pageGroups.get(pageId) || { id: pageId, meshes: [], roofMeshes: [], sourceId, label: pageLabel };
+    const pageEntry = this.pageGroups.get(pageId) || { id: pageId, meshes: [], roofMeshes: [], sourceId, label: pageLabel, levelId };
     pageEntry.roofMeshes.push(mesh);
     this.pageGroups.set(pageId, pageEntry);
   }
@@ -1311,14 +1453,9 @@ class HouseViewer {
     this.sourceVisibility.set(sourceId, visible);
     const meshes = this.sourceGroups.get(sourceId) || [];
     meshes.forEach((mesh) => {
-      const pageId = mesh.userData.pageId as string | undefined;
-      const isRoof = mesh.userData.roof === true;
-      const pageVisible = pageId
-        ? (isRoof ? this.pageRoofVisibility.get(pageId) : this.pageVisibility.get(pageId))
-        : undefined;
-      const shouldShow = visible && (pageVisible !== false);
-      mesh.visible = shouldShow;
+      mesh.visible = this.isShownBySourceAndLevel(mesh) && !mesh.userData.belowConfidence;
     });
+    this.syncOpeningVisibility();
     this.renderAssemblyTree();
     this.addAutoFloorFromWalls();
     this.walkthroughController.syncEnvironment();
@@ -1328,34 +1465,43 @@ class HouseViewer {
     this.pageVisibility.set(pageId, visible);
     const page = this.pageGroups.get(pageId);
     if (!page) return;
-    const sourceVisible = this.sourceVisibility.get(page.sourceId);
-    page.meshes.forEach((mesh) => {
-      const shouldShow = (sourceVisible !== false) && visible;
-      mesh.visible = shouldShow;
-    });
-    page.roofMeshes.forEach((mesh) => {
-      const roofAllowed = this.pageRoofVisibility.get(pageId);
-      const shouldShow = (sourceVisible !== false) && visible && (roofAllowed !== false);
-      mesh.visible = shouldShow;
+    [...page.meshes, ...page.roofMeshes].forEach((mesh) => {
+      mesh.visible = this.isShownBySourceAndLevel(mesh) && !mesh.userData.belowConfidence;
     });
+    this.syncOpeningVisibility();
     this.renderAssemblyTree();
     this.addAutoFloorFromWalls();
     this.walkthroughController.syncEnvironment();
   }
 
+  private setLevelPagesVisibility(sourceId: string, levelId: string, visible: boolean) {
+    this.pageGroups.forEach((page) => {
+      if (page.sourceId === sourceId && page.levelId === levelId) this.setPageVisibility(page.id, visible);
+    });
+  }
+
   private setPageRoofVisibility(pageId: string, visible: boolean) {
     this.pageRoofVisibility.set(pageId, visible);
     const page = this.pageGroups.get(pageId);
     if (!page) return;
-    const sourceVisible = this.sourceVisibility.get(page.sourceId);
     page.roofMeshes.forEach((mesh) => {
-      const shouldShow = (sourceVisible !== false) && visible;
-      mesh.visible = shouldShow;
+      mesh.visible = this.isShownBySourceAndLevel(mesh);
     });
     this.renderAssemblyTree();
     this.walkthroughController.syncEnvironment();
   }
 
+  /** Opening panes follow their host wall's visibility (door portals stay hidden). */
+  private syncOpeningVisibility() {
+    this.wallRegistry.forEach((entry, wall) => {
+      entry.openings.forEach((opening) => {
+        if (opening.displayMesh && !opening.displayMesh.userData.portalOnly) {
+          opening.displayMesh.visible = wall.visible;
+        }
+      });
+    });
+  }
+
   private initAssemblyPanel() {
     const collapseBtn = document.getElementById('assembly-collapse-btn') as HTMLButtonElement;
     const panel = document.getElementById('assembly-panel') as HTMLElement;
@@ -1369,9 +1515,15 @@ class HouseViewer {
 
     body.addEventListener('change', (e) => {
       const target = e.target as HTMLInputElement;
+      if (target?.type === 'number' && target.dataset.levelId) {
+        this.setLevelElevation(target.dataset.levelId, parseFloat(target.value));
+        return;
+      }
       if (target?.type === 'checkbox' && target.dataset.sourceId) {
         const visible = target.checked;
-        if (target.dataset.pageId && target.dataset.roof === 'true') {
+        if (target.dataset.levelId) {
+          this.setLevelPagesVisibility(target.dataset.sourceId, target.dataset.levelId, visible);
+        } else if (target.dataset.pageId && target.dataset.roof === 'true') {
           this.setPageRoofVisibility(target.dataset.pageId, visible);
         } else if (target.dataset.pageId) {
           this.setPageVisibility(target.dataset.pageId, visible);
@@ -1393,6 +1545,19 @@ class HouseViewer {
       btn.textContent = hidden ? '▾' : '▸';
     });
 
+    body.addEventListener('click', (e) => {
+      const btn = (e.target as HTMLElement).closest('.assembly-level-toggle') as HTMLElement | null;
+      if (!btn) return;
+      const levelKey = btn.dataset.levelKey;
+      if (!levelKey) return;
+      const child = Array.from(body.querySelectorAll<HTMLElement>('[data-level-children]'))
+        .find((el) => el.dataset.levelChildren === levelKey);
+      if (!child) return;
+      const hidden = child.style.display === 'none';
+      child.style.display = hidden ? 'flex' : 'none';
+      btn.textContent = hidden ? '▾' : '▸';
+    });
+
     body.addEventListener('click', (e) => {
       const btn = (e.target as HTMLElement).closest('.assembly-page-toggle') as HTMLElement | null;
       if (!btn) return;
@@ -1408,6 +1573,406 @@ class HouseViewer {
     this.renderAssemblyTree();
   }
 
+  // ─── Levels panel ─────────────────────────────────────────────────────────
+  private initLevelsPanel() {
+    const list = document.getElementById('levels-list') as HTMLElement;
+    const showAllBtn = document.getElementById('levels-show-all-btn') as HTMLButtonElement;
+
+    list.addEventListener('change', (e) => {
+      const target = e.target as HTMLInputElement;
+      const levelId = target?.dataset.levelId;
+      if (!levelId) return;
+      if (target.type === 'checkbox') {
+        this.setLevelVisibility(levelId, target.checked);
+      } else if (target.dataset.field === 'elevation') {
+        this.setLevelElevation(levelId, parseFloat(target.value));
+      } else if (target.dataset.field === 'height') {
+        this.setLevelHeight(levelId, parseFloat(target.value));
+      }
+    });
+
+    list.addEventListener('click', (e) => {
+      const btn = (e.target as HTMLElement).closest('.level-isolate-btn') as HTMLElement | null;
+      if (btn?.dataset.levelId) this.isolateLevel(btn.dataset.levelId);
+    });
+
+    showAllBtn.addEventListener('click', () => {
+      this.hiddenLevels.clear();
+      this.applyLevelVisibility();
+    });
+  }
+
+  private renderLevelsPanel() {
+    const panel = document.getElementById('levels-panel') as HTMLElement | null;
+    const list = document.getElementById('levels-list') as HTMLElement | null;
+    if (!panel || !list) return;
+    panel.style.display = this.levels.size ? 'block' : 'none';
+    list.innerHTML = '';
+    if (!this.levels.size) return;
+
+    const head = document.createElement('div');
+    head.className = 'level-row level-head';
+    ['', 'Level', 'Elev (ft)', 'Floor-floor', ''].forEach((text) => {
+      const cell = document.createElement('span');
+      cell.textContent = text;
+      head.appendChild(cell);
+    });
+    list.appendChild(head);
+
+    // Highest level first, like a building section
+    Array.from(this.levels.values())
+      .sort((a, b) => b.elevation - a.elevation)
+      .forEach((level) => {
+        const row = document.createElement('div');
+        row.className = 'level-row';
+
+        const checkbox = document.createElement('input');
+        checkbox.type = 'checkbox';
+        checkbox.dataset.levelId = level.id;
+        checkbox.checked = !this.hiddenLevels.has(level.id);
+
+        const label = document.createElement('span');
+        label.className = 'level-label';
+        label.textContent = level.label;
+        label.title = `${level.count} element${level.count === 1 ? '' : 's'}`;
+
+        const numberInput = (field: 'elevation' | 'height', value: number, title: string) => {
+          const input = document.createElement('input');
+          input.type = 'number';
+          input.step = '0.5';
+          input.className = 'level-input';
+          input.title = title;
+          input.value = String(+value.toFixed(2));
+          input.dataset.levelId = level.id;
+          input.dataset.field = field;
+          if (field === 'height') input.min = '1';
+          return input;
+        };
+
+        const isolateBtn = document.createElement('button');
+        isolateBtn.type = 'button';
+        isolateBtn.className = 'btn-wall-close level-isolate-btn';
+        isolateBtn.dataset.levelId = level.id;
+        isolateBtn.textContent = 'Only';
+        isolateBtn.title = 'Show only this level';
+
+        row.append(
+          checkbox,
+          label,
+          numberInput('elevation', level.elevation, 'Level elevation (ft)'),
+          numberInput('height', level.height, 'Floor-to-floor height (ft); levels above restack'),
+          isolateBtn
+        );
+        list.appendChild(row);
+      });
+  }
+
+  private setLevelVisibility(levelId: string, visible: boolean) {
+    if (visible) this.hiddenLevels.delete(levelId);
+    else this.hiddenLevels.add(levelId);
+    this.applyLevelVisibility();
+  }
+
+  private isolateLevel(levelId: string) {
+    this.hiddenLevels = new Set(Array.from(this.levels.keys()).filter((id) => id !== levelId));
+    this.applyLevelVisibility();
+  }
+
+  /** Shows / hides tagged objects per level, keeping page, source, facade and confidence hiding. */
+  private applyLevelVisibility() {
+    this.buildingGroup.children.forEach((child) => {
+      const { levelId, facadeLayer, followsRoof } = child.userData ?? {};
+      if (!levelId && !followsRoof) return;
+      const facadeHidden = !!facadeLayer && this.hiddenFacadeTypes.has(facadeLayer);
+      child.visible = this.isShownBySourceAndLevel(child) && !facadeHidden && !child.userData.belowConfidence;
+    });
+    this.syncOpeningVisibility();
+    this.renderAssemblyTree();
+    this.renderLevelsPanel();
+    this.addAutoFloorFromWalls();
+    this.walkthroughController.syncEnvironment();
+  }
+
+  /** The roof shows with the top level. */
+  private isRoofLevelShown(): boolean {
+    const top = Array.from(this.levels.values())
+      .reduce<ModelLevel | null>((best, level) => (!best || level.elevation > best.elevation ? level : best), null);
+    return !top || !this.hiddenLevels.has(top.id);
+  }
+
+  private setLevelElevation(levelId: string, elevation: number) {
+    const level = this.levels.get(levelId);
+    if (!level || !Number.isFinite(elevation)) return;
+    const delta = elevation - level.elevation;
+    if (Math.abs(delta) < 1e-6) return;
+    const wallTop = this.wallTopElevation();
+    this.onLevelsMoved(wallTop, this.shiftLevel(level, delta));
+  }
+
+  private setLevelHeight(levelId: string, height: number) {
+    const level = this.levels.get(levelId);
+    if (!level || !Number.isFinite(height) || height <= 0) return;
+    const delta = height - level.height;
+    if (Math.abs(delta) < 1e-6) return;
+    // Levels sitting on top of this one restack with it
+    const top = level.elevation + level.height;
+    const stacked = Array.from(this.levels.values()).filter((other) => other !== level && other.elevation >= top - 1e-3);
+    const wallTop = this.wallTopElevation();
+    level.height = height;
+    this.onLevelsMoved(wallTop, stacked.flatMap((other) => this.shiftLevel(other, delta)));
+  }
+
+  /**
+   * Moves every object tagged with a level (walls keep their openings in step)
+   * and returns the walls it moved.
+   */
+  private shiftLevel(level: ModelLevel, delta: number): THREE.Mesh[] {
+    level.elevation += delta;
+    const moved: THREE.Mesh[] = [];
+    this.buildingGroup.children.forEach((child) => {
+      if (child.userData?.levelId !== level.id) return;
+      child.position.y += delta;
+      const entry = this.wallRegistry.get(child as THREE.Mesh);
+      if (!entry) return;
+      entry.baseElev += delta;
+      entry.worldPos.y += delta;
+      moved.push(child as THREE.Mesh);
+    });
+    return moved;
+  }
+
+  private wallTopElevation(): number {
+    let wallTop = 0;
+    this.wallRegistry.forEach((entry) => { wallTop = Math.max(wallTop, entry.baseElev + entry.height); });
+    return wallTop;
+  }
+
+  /**
+   * Re-joins the moved walls and every wall they meet in plan (joins only
+   * form between walls at the same base), lifts the roof by however much the
+   * tallest wall moved, then refreshes dependents.
+   */
+  private onLevelsMoved(wallTopBefore: number, movedWalls: THREE.Mesh[]) {
+    const wallsNear = createWallIndex(this.wallRegistry);
+    const affected = new Set(movedWalls);
+    movedWalls.forEach((mesh) => this.wallsTouching(mesh, this.wallRegistry.get(mesh)!, wallsNear).forEach((wall) => affected.add(wall)));
+    affected.forEach((mesh) => this.rebuildWallGeometry(mesh, this.wallRegistry.get(mesh)!, wallsNear));
+
+    const roofDelta = this.wallTopElevation() - wallTopBefore;
+    if (Math.abs(roofDelta) > 1e-6) {
+      this.buildingGroup.children.forEach((child) => {
+        if (child.userData?.followsRoof) child.position.y += roofDelta;
+      });
+    }
+
+    this.renderAssemblyTree();
+    this.renderLevelsPanel();
+    this.addAutoFloorFromWalls();
+    this.walkthroughController.syncEnvironment();
+  }
+
+  // ─── Dimension check (plan format) ────────────────────────────────────────
+  /** Re-checks every wall against its dimension text, tints the failures and refreshes the panel. */
+  private refreshDimensionCheck() {
+    this.wallRegistry.forEach((entry, mesh) => {
+      const dim = entry.dimension;
+      mesh.userData.dimensionMismatch = !!dim && Math.abs(entry.length - dim.expected) > dimensionTolerance(dim.expected);
+      if (mesh !== this.selectedWall) this.dehighlightWall(mesh);
+    });
+    this.renderDimensionPanel();
+  }
+
+  private initDimensionPanel() {
+    const list = document.getElementById('dimension-list') as HTMLElement;
+    list.addEventListener('click', (e) => {
+      const row = (e.target as HTMLElement).closest('.dimension-row') as HTMLElement | null;
+      const mesh = Array.from(this.wallRegistry.keys()).find((m) => m.uuid === row?.dataset.wallId);
+      if (mesh) this.selectWall(mesh);
+    });
+  }
+
+  private renderDimensionPanel() {
+    const panel = document.getElementById('dimension-panel') as HTMLElement | null;
+    const summary = document.getElementById('dimension-summary') as HTMLElement | null;
+    const list = document.getElementById('dimension-list') as HTMLElement | null;
+    if (!panel || !summary || !list) return;
+
+    const checked = Array.from(this.wallRegistry.entries()).filter(([, entry]) => entry.dimension);
+    const mismatches = checked
+      .filter(([mesh]) => mesh.userData.dimensionMismatch)
+      .map(([mesh, entry]) => ({ mesh, entry, diff: entry.length - entry.dimension!.expected }))
+      .sort((a, b) => Math.abs(b.diff) - Math.abs(a.diff));
+
+    panel.style.display = checked.length ? 'block' : 'none';
+    list.innerHTML = '';
+    if (!checked.length) return;
+    summary.textContent = `${mismatches.length} of ${checked.length} dimensioned walls off by more than `
+      + `${DIMENSION_TOLERANCE_FT} ft / ${DIMENSION_TOLERANCE_RATIO * 100}%`;
+
+    mismatches.forEach(({ mesh, entry, diff }) => {
+      const row = document.createElement('button');
+      row.type = 'button';
+      row.className = 'dimension-row';
+      row.dataset.wallId = mesh.uuid;
+      row.title = 'Select this wall';
+
+      const label = document.createElement('span');
+      label.className = 'dimension-label';
+      label.textContent = [entry.label, mesh.userData.pageLabel].filter(Boolean).join(' · ');
+
+      const detail = document.createElement('span');
+      detail.className = 'dimension-detail';
+      detail.textContent = `${entry.length.toFixed(2)} ft drawn vs ${entry.dimension!.text}`;
+
+      const delta = document.createElement('span');
+      delta.className = 'dimension-delta';
+      delta.textContent = `${diff > 0 ? '+' : ''}${diff.toFixed(2)} ft`;
+
+      row.append(label, delta, detail);
+      list.appendChild(row);
+    });
+  }
+
+  // ─── Load diagnostics ─────────────────────────────────────────────────────
+  private reportLoadIssue(kind: DiagnosticKind, message: string, target?: THREE.Object3D) {
+    this.loadDiagnostics.push({ kind, message, target });
+  }
+
+  private initDiagnosticsDrawer() {
+    const drawer = document.getElementById('diagnostics-drawer') as HTMLElement;
+    const toggle = document.getElementById('diagnostics-toggle') as HTMLButtonElement;
+    const body = document.getElementById('diagnostics-body') as HTMLElement;
+    toggle.addEventListener('click', () => drawer.classList.toggle('diagnostics-collapsed'));
+    body.addEventListener('click', (e) => {
+      const row = (e.target as HTMLElement).closest('.diagnostics-row') as HTMLElement | null;
+      const target = this.loadDiagnostics[Number(row?.dataset.index)]?.target;
+      if (target) this.zoomToObject(target);
+    });
+  }
+
+  private renderDiagnosticsDrawer() {
+    const drawer = document.getElementById('diagnostics-drawer') as HTMLElement | null;
+    const count = document.getElementById('diagnostics-count') as HTMLElement | null;
+    const body = document.getElementById('diagnostics-body') as HTMLElement | null;
+    if (!drawer || !count || !body) return;
+
+    drawer.style.display = this.loadDiagnostics.length ? 'block' : 'none';
+    count.textContent = String(this.loadDiagnostics.length);
+    body.innerHTML = '';
+
+    (Object.keys(DIAGNOSTIC_LABELS) as DiagnosticKind[]).forEach((kind) => {
+      const items = this.loadDiagnostics
+        .map((diag, index) => ({ diag, index }))
+        .filter(({ diag }) => diag.kind === kind);
+      if (!items.length) return;
+
+      const group = document.createElement('div');
+      group.className = 'diagnostics-group';
+      const heading = document.createElement('p');
+      heading.className = 'diagnostics-group-title';
+      heading.textContent = `${DIAGNOSTIC_LABELS[kind]} · ${items.length}`;
+      group.appendChild(heading);
+
+      items.slice(0, DIAGNOSTIC_ROW_LIMIT).forEach(({ diag, index }) => {
+        const row = document.createElement('button');
+        row.type = 'button';
+        row.className = 'diagnostics-row';
+        row.dataset.index = String(index);
+        row.disabled = !diag.target;
+        row.title = diag.target ? 'Zoom to this element' : 'Not rendered';
+        row.textContent = diag.message;
+        group.appendChild(row);
+      });
+      if (items.length > DIAGNOSTIC_ROW_LIMIT) {
+        const more = document.createElement('p');
+        more.className = 'walkthrough-hint';
+        more.textContent = `+${items.length - DIAGNOSTIC_ROW_LIMIT} more`;
+        group.appendChild(more);
+      }
+      body.appendChild(group);
+    });
+  }
+
+  /** Points the orbit camera at an object, keeping the current viewing direction. */
+  private zoomToObject(target: THREE.Object3D) {
+    if (this.walkthroughController.isActive()) return;
+    const box = new THREE.Box3().setFromObject(target);
+    if (box.isEmpty()) return;
+    const center = box.getCenter(new THREE.Vector3());
+    const dist = Math.max(box.getSize(new THREE.Vector3()).length() * 1.5, 12);
+    const dir = new THREE.Vector3().subVectors(this.camera.position, this.controls.target).normalize();
+    this.controls.target.copy(center);
+    this.camera.position.copy(center).addScaledVector(dir, dist);
+    this.controls.update();
+    if (target instanceof THREE.Mesh && this.wallRegistry.has(target)) this.selectWall(target);
+  }
+
+  // ─── Confidence filter (old format) ───────────────────────────────────────
+  private initConfidencePanel() {
+    const slider = document.getElementById('confidence-threshold') as HTMLInputElement;
+    const ramp = document.getElementById('confidence-ramp-toggle') as HTMLInputElement;
+    slider.addEventListener('input', () => {
+      this.confidenceThreshold = parseFloat(slider.value) || 0;
+      this.applyConfidenceFilter();
+      this.addAutoFloorFromWalls();
+      this.refreshEstimateIfOpen();
+      this.walkthroughController.syncEnvironment();
+    });
+    ramp.addEventListener('change', () => {
+      this.confidenceRamp = ramp.checked;
+      this.applyConfidenceFilter();
+    });
+  }
+
+  /** Whether the assemblies and levels panels leave an object shown (confidence aside). */
+  private isShownBySourceAndLevel(obj: THREE.Object3D): boolean {
+    const { sourceId, pageId, levelId, roof, followsRoof } = obj.userData;
+    if (sourceId && this.sourceVisibility.get(sourceId) === false) return false;
+    if (pageId && this.pageVisibility.get(pageId) === false) return false;
+    if (pageId && roof && this.pageRoofVisibility.get(pageId) === false) return false;
+    if (followsRoof) return this.isRoofLevelShown();
+    return !(levelId && this.hiddenLevels.has(levelId));
+  }
+
+  /** Hides walls under the threshold and, with the ramp on, tints the rest red → green by confidence. */
+  private applyConfidenceFilter() {
+    const scored = Array.from(this.wallRegistry.entries()).filter(([, entry]) => entry.confidence !== undefined);
+    const values = scored.map(([, entry]) => entry.confidence!);
+    const lo = values.length ? Math.min(...values) : 0;
+    const hi = values.length ? Math.max(...values) : 1;
+
+    let hidden = 0;
+    scored.forEach(([mesh, entry]) => {
+      const below = entry.confidence! < this.confidenceThreshold;
+      mesh.userData.belowConfidence = below;
+      mesh.visible = !below && this.isShownBySourceAndLevel(mesh);
+      if (below) hidden++;
+
+      const mat = mesh.material as THREE.MeshStandardMaterial;
+      if (this.confidenceRamp) {
+        const t = hi > lo ? (entry.confidence! - lo) / (hi - lo) : 1;
+        mat.color.setHSL(t / 3, 0.75, 0.5);
+      } else {
+        mat.color.set(mat.map ? 0xffffff : entry.originalColor);
+      }
+    });
+    this.syncOpeningVisibility();
+
+    const panel = document.getElementById('confidence-panel') as HTMLElement | null;
+    const value = document.getElementById('confidence-threshold-value') as HTMLElement | null;
+    const summary = document.getElementById('confidence-summary') as HTMLElement | null;
+    const slider = document.getElementById('confidence-threshold') as HTMLInputElement | null;
+    const ramp = document.getElementById('confidence-ramp-toggle') as HTMLInputElement | null;
+    if (!panel || !value || !summary || !slider || !ramp) return;
+    panel.style.display = scored.length ? 'block' : 'none';
+    slider.value = String(this.confidenceThreshold);
+    ramp.checked = this.confidenceRamp;
+    value.textContent = this.confidenceThreshold.toFixed(2);
+    summary.textContent = scored.length
+      ? `${hidden} of ${scored.length} walls hidden · confidence ${lo.toFixed(2)}–${hi.toFixed(2)}`
+      : '';
+  }
+
   private recalculateEstimateTotal() {
     const totalEl = document.getElementById('estimate-final-total') as HTMLElement;
     let total = 0;
@@ -1430,16 +1995,17 @@ class HouseViewer {
   }
 
   private exportEstimatePdf() {
-    const rows: Array<{ id: string; label: string; type: string; volume: string; price: string }> = [];
+    const rows: Array<{ id: string; label: string; type: string; assembly: string; volume: string; price: string }> = [];
     document.querySelectorAll('#estimate-table-body tr').forEach((tr) => {
       const tds = tr.querySelectorAll('td');
-      if (tds.length < 5) return;
-      const priceInput = tds[4].querySelector('input') as HTMLInputElement | null;
+      if (tds.length < 6) return;
+      const priceInput = tds[5].querySelector('input') as HTMLInputElement | null;
       rows.push({
         id: (tds[0].textContent || '').trim(),
         label: (tds[1].textContent || '').trim(),
         type: (tds[2].textContent || '').trim(),
-        volume: (tds[3].textContent || '').trim(),
+        assembly: (tds[3].textContent || '').trim(),
+        volume: (tds[4].textContent || '').trim(),
         price: ((priceInput?.value || '0')).trim(),
       });
     });
@@ -1452,6 +2018,7 @@ class HouseViewer {
         <td>${this.escapeHtml(r.id)}</td>
         <td>${this.escapeHtml(r.label)}</td>
         <td>${this.escapeHtml(r.type)}</td>
+        <td>${this.escapeHtml(r.assembly)}</td>
         <td>${this.escapeHtml(r.volume)}</td>
         <td>$${Number(r.price || '0').toFixed(2)}</td>
       </tr>
@@ -1476,7 +2043,7 @@ class HouseViewer {
         <p>Generated: ${now}</p>
         <table>
           <thead>
-            <tr><th>#</th><th>Wall</th><th>Type</th><th>Volume (ft³)</th><th>Price ($)</th></tr>
+            <tr><th>#</th><th>Wall</th><th>Type</th><th>Assembly</th><th>Volume (ft³)</th><th>Price ($)</th></tr>
           </thead>
           <tbody>${tableRows}</tbody>
         </table>
@@ -1525,11 +2092,8 @@ class HouseViewer {
     return Object.prototype.hasOwnProperty.call(WALL_TEXTURE_URLS, rawKey) ? rawKey : 'none';
   }
 
-  private getWallTextureKey(mesh: THREE.Mesh, entry: WallEntry): string {
-    const settingsAny = entry.record.settings as Record<string, unknown>;
-    const keyFromSettings = typeof settingsAny.texture === 'string' ? settingsAny.texture : null;
-    const keyFromMesh = typeof mesh.userData.wallTextureKey === 'string' ? mesh.userData.wallTextureKey : null;
-    return this.normalizeTextureKey(keyFromSettings || keyFromMesh);
+  private getWallTextureKey(entry: WallEntry): string {
+    return this.normalizeTextureKey(entry.texture);
   }
 
   private applyWallTexture(mesh: THREE.Mesh, entry: WallEntry, textureKey: string) {
@@ -1541,8 +2105,7 @@ class HouseViewer {
       mat.roughness = 0.8;
       mat.metalness = 0.1;
       mat.needsUpdate = true;
-      mesh.userData.wallTextureKey = 'none';
-      (entry.record.settings as any).texture = 'none';
+      entry.texture = 'none';
       return;
     }
 
@@ -1562,8 +2125,7 @@ class HouseViewer {
     mat.roughness = 0.55;
     mat.metalness = 0.04;
     mat.needsUpdate = true;
-    mesh.userData.wallTextureKey = normalizedKey;
-    (entry.record.settings as any).texture = normalizedKey;
+    entry.texture = normalizedKey;
   }
 
   private setModalTextureSelection(textureKey: string) {
@@ -1576,6 +2138,348 @@ class HouseViewer {
     });
   }
 
+  // ─── Wall openings ───────────────────────────────────────────────────────
+  /**
+   * Regenerates a wall's geometry from its current dimensions and opening list.
+   * The mesh keeps its identity, material and transform; only the geometry is swapped.
+   */
+  private rebuildWallGeometry(mesh: THREE.Mesh, entry: WallEntry, wallsNear = createWallIndex(this.wallRegistry)) {
+    const geometry = buildWallGeometry(mesh, entry, this.wallRegistry, wallsNear);
+    mesh.geometry.dispose();
+    mesh.geometry = geometry;
+    this.syncOpeningDisplayMeshes(entry);
+    this.syncWallAssemblyCap(mesh, entry);
+  }
+
+  /**
+   * Hatched section strip on top of a wall showing its assembly: sheathing on
+   * the faces, insulation in the cavity and the stud layout. It is a child of
+   * the wall so it follows moves, edits and visibility toggles.
+   */
+  private syncWallAssemblyCap(mesh: THREE.Mesh, entry: WallEntry) {
+    const old = mesh.children.find((c) => c.userData.wallAssemblyCap) as THREE.Mesh | undefined;
+    if (old) {
+      mesh.remove(old);
+      old.geometry.dispose();
+      const oldMat = old.material as THREE.MeshStandardMaterial;
+      oldMat.map?.dispose();
+      oldMat.dispose();
+    }
+    if (!hasWallAssembly(entry.assembly)) return;
+
+    const map = this.getWallAssemblyTexture(entry.assembly).clone();
+    map.repeat.set(Math.max(1, entry.length / (16 / 12)), 1); // one stud bay per 16"
+    map.needsUpdate = true;
+
+    const geo = new THREE.PlaneGeometry(entry.length, entry.thickness);
+    geo.rotateX(-Math.PI / 2);
+    const cap = new THREE.Mesh(geo, new THREE.MeshStandardMaterial({ map, roughness: 0.9, metalness: 0 }));
+    cap.position.y = entry.height / 2 + 0.02;
+    cap.userData.wallAssemblyCap = true;
+    cap.raycast = () => {};
+    mesh.add(cap);
+  }
+
+  /** One stud bay of the assembly section, drawn once per flag combination. */
+  private getWallAssemblyTexture(assembly: WallAssembly): THREE.CanvasTexture {
+    const key = wallAssemblyKey(assembly);
+    const cached = this.wallAssemblyTextureCache.get(key);
+    if (cached) return cached;
+
+    const w = 128, h = 64;
+    const canvas = document.createElement('canvas');
+    canvas.width = w;
+    canvas.height = h;
+    const ctx = canvas.getContext('2d')!;
+    const skin = assembly.fireRated ? 10 : 4;
+
+    ctx.fillStyle = WALL_ASSEMBLY_COLORS.core;
+    ctx.fillRect(0, 0, w, h);
+    if (assembly.insulation) {
+      ctx.fillStyle = WALL_ASSEMBLY_COLORS.insulation;
+      ctx.fillRect(0, skin, w, h - skin * 2);
+      ctx.strokeStyle = '#a16207';
+      ctx.lineWidth = 2;
+      for (let x = -h; x < w; x += 12) {
+        ctx.beginPath();
+        ctx.moveTo(x, h - skin);
+        ctx.lineTo(x + h - skin * 2, skin);
+        ctx.stroke();
+      }
+    }
+
+    // Studs: paired for double studs, alternating faces when staggered
+    ctx.fillStyle = WALL_ASSEMBLY_COLORS.stud;
+    const studW = 12;
+    if (assembly.staggeredStuds) {
+      const studH = (h - skin * 2) * 0.6;
+      ctx.fillRect(0, skin, studW, studH);
+      ctx.fillRect(w / 2, h - skin - studH, studW, studH);
+    } else {
+      ctx.fillRect(0, skin, studW, h - skin * 2);
+    }
+    if (assembly.doubleStuds) ctx.fillRect(studW + 2, skin, studW, h - skin * 2);
+
+    ctx.fillStyle = assembly.fireRated ? WALL_ASSEMBLY_COLORS.sheathing : '#9ca3af';
+    ctx.fillRect(0, 0, w, skin);
+    ctx.fillRect(0, h - skin, w, skin);
+
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.wrapS = THREE.RepeatWrapping;
+    texture.colorSpace = THREE.SRGBColorSpace;
+    this.wallAssemblyTextureCache.set(key, texture);
+    return texture;
+  }
+
+  /** Rebuilds every registered wall, e.g. once a renderer has placed them all and corners can be joined. */
+  private rebuildAllWalls() {
+    const wallsNear = createWallIndex(this.wallRegistry);
+    this.wallRegistry.forEach((entry, mesh) => this.rebuildWallGeometry(mesh, entry, wallsNear));
+  }
+
+  /** Walls whose ends lie on or near this wall's span, or whose span this wall's ends touch. */
+  private wallsTouching(mesh: THREE.Mesh, entry: WallEntry, wallsNear = createWallIndex(this.wallRegistry)): THREE.Mesh[] {
+    const near = (f: { mid: Vec2; axis: Vec2; normal: Vec2 }, length: number, pt: Vec2, reach: number) => {
+      const rel: Vec2 = [pt[0] - f.mid[0], pt[1] - f.mid[1]];
+      const s = rel[0] * f.axis[0] + rel[1] * f.axis[1];
+      const d = rel[0] * f.normal[0] + rel[1] * f.normal[1];
+      return Math.abs(s) <= length / 2 + reach && Math.abs(d) <= reach;
+    };
+    const ends = (f: { mid: Vec2; axis: Vec2 }, length: number): Vec2[] => [-1, 1].map((k) =>
+      [f.mid[0] + f.axis[0] * k * length / 2, f.mid[1] + f.axis[1] * k * length / 2] as Vec2);
+
+    const A = wallFrame(entry);
+    const touching: THREE.Mesh[] = [];
+    wallsNear(wallFootprint(entry, entry.thickness * 1.5)).forEach((otherMesh) => {
+      const other = this.wallRegistry.get(otherMesh);
+      if (!other || otherMesh === mesh) return;
+      const B = wallFrame(other);
+      const reach = Math.max(entry.thickness, other.thickness) * 1.5;
+      if (ends(B, other.length).some((pt) => near(A, entry.length, pt, reach))
+        || ends(A, entry.length).some((pt) => near(B, other.length, pt, reach))) {
+        touching.push(otherMesh);
+      }
+    });
+    return touching;
+  }
+
+  /** Moves each opening's display mesh (glass / door leaf) onto the wall's current placement. */
+  private syncOpeningDisplayMeshes(entry: WallEntry) {
+    const cosR = Math.cos(entry.worldRotY);
+    const sinR = Math.sin(-entry.worldRotY);
+
+    entry.openings.forEach((opening) => {
+      if (!opening.displayMesh) return;
+      const offset = clampedOpeningOffset(entry, opening);
+      opening.displayMesh.position.set(
+        entry.worldPos.x + (offset * cosR),
+        entry.baseElev + opening.sill + (opening.height / 2),
+        entry.worldPos.z + (offset * sinR)
+      );
+      opening.displayMesh.rotation.y = entry.worldRotY;
+    });
+  }
+
+  /** Glass pane (window) or door leaf shown inside an opening. */
+  private createOpeningDisplayMesh(type: WallOpening['type'], width: number, height: number): THREE.Mesh {
+    const displayMat = type === 'window'
+      ? new THREE.MeshStandardMaterial({ color: 0x93c5fd, metalness: 0.18, roughness: 0.08, transparent: true, opacity: 0.5, side: THREE.DoubleSide })
+      : new THREE.MeshStandardMaterial({ color: 0x7c3aed, metalness: 0.05, roughness: 0.6, transparent: true, opacity: 0.5, side: THREE.DoubleSide });
+    return new THREE.Mesh(new THREE.BoxGeometry(width, height, 0.45), displayMat);
+  }
+
+  /** Re-sizes an opening's glass or door leaf to its current width and height. */
+  private resizeOpeningDisplayMesh(opening: WallOpening) {
+    if (!opening.displayMesh) return;
+    const oldGeo = opening.displayMesh.geometry as THREE.BoxGeometry;
+    const depth = oldGeo.parameters?.depth ?? 0.45;
+    opening.displayMesh.geometry = new THREE.BoxGeometry(opening.width, opening.height, depth);
+    oldGeo.dispose();
+  }
+
+  private getOpeningMeshes(): THREE.Mesh[] {
+    const meshes: THREE.Mesh[] = [];
+    this.wallRegistry.forEach((entry, wall) => {
+      if (wall.visible === false) return;
+      entry.openings.forEach((opening) => {
+        if (opening.displayMesh) meshes.push(opening.displayMesh);
+      });
+    });
+    return meshes;
+  }
+
+  private findOpeningByMesh(mesh: THREE.Object3D): { wall: THREE.Mesh; opening: WallOpening } | null {
+    for (const [wall, entry] of this.wallRegistry) {
+      const opening = entry.openings.find((o) => o.displayMesh === mesh);
+      if (opening) return { wall, opening };
+    }
+    return null;
+  }
+
+  /**
+   * Picks an opening under the ray. An opening wins over the first wall hit when
+   * it is in front of that wall or is cut into it (the pane sits inside the wall).
+   */
+  private pickOpening(wallHits: THREE.Intersection[]): { wall: THREE.Mesh; opening: WallOpening } | null {
+    const openingHits = this.raycaster.intersectObjects(this.getOpeningMeshes(), false);
+    if (!openingHits.length) return null;
+
+    const picked = this.findOpeningByMesh(openingHits[0].object);
+    if (!picked) return null;
+    if (!wallHits.length) return picked;
+
+    const firstWallHit = wallHits[0];
+    if (openingHits[0].distance <= firstWallHit.distance || firstWallHit.object === picked.wall) return picked;
+    return null;
+  }
+
+  private selectOpening(wall: THREE.Mesh, opening: WallOpening) {
+    this.deselectOpening();
+    if (this.selectedWall) this.closeModal();
+    if (!opening.displayMesh) return;
+
+    this.selectedOpening = { wall, opening };
+
+    // Door portals may be invisible; reveal them while they are being edited
+    const display = opening.displayMesh;
+    display.userData.hiddenWhenIdle = display.visible === false;
+    display.visible = true;
+    const mat = display.material as THREE.MeshStandardMaterial;
+    mat.emissive.set(0xf59e0b);
+    mat.emissiveIntensity = 0.45;
+
+    const title = document.getElementById('opening-toolbar-title')!;
+    const widthIn = document.getElementById('opening-width-input') as HTMLInputElement;
+    const heightIn = document.getElementById('opening-height-input') as HTMLInputElement;
+    title.textContent = opening.type === 'window' ? 'Window' : 'Door';
+    widthIn.value = opening.width.toFixed(2);
+    heightIn.value = opening.height.toFixed(2);
+    this.syncOpeningToolbarRanges();
+
+    document.getElementById('opening-toolbar')!.style.display = 'block';
+  }
+
+  private deselectOpening() {
+    document.getElementById('opening-toolbar')!.style.display = 'none';
+    if (!this.selectedOpening) return;
+
+    const display = this.selectedOpening.opening.displayMesh;
+    if (display) {
+      const mat = display.material as THREE.MeshStandardMaterial;
+      mat.emissive.set(0x000000);
+      mat.emissiveIntensity = 0;
+      if (display.userData.hiddenWhenIdle) display.visible = false;
+      delete display.userData.hiddenWhenIdle;
+    }
+    this.selectedOpening = null;
+  }
+
+  /** Fits the slide / elevation sliders to the selected opening's size and host wall. */
+  private syncOpeningToolbarRanges() {
+    if (!this.selectedOpening) return;
+    const { wall, opening } = this.selectedOpening;
+    const entry = this.wallRegistry.get(wall)!;
+    const sliderX = document.getElementById('opening-pos-x') as HTMLInputElement;
+    const sliderY = document.getElementById('opening-pos-y') as HTMLInputElement;
+    const groupY = document.getElementById('opening-pos-y-group')!;
+
+    const maxSlide = Math.max(0, (entry.length / 2) - (opening.width / 2));
+    sliderX.min = (-maxSlide).toString();
+    sliderX.max = maxSlide.toString();
+    sliderX.value = clampedOpeningOffset(entry, opening).toString();
+
+    if (opening.type === 'window') {
+      sliderY.min = '0';
+      sliderY.max = Math.max(0, entry.height - opening.height).toString();
+      sliderY.value = opening.sill.toString();
+      groupY.style.display = 'block';
+    } else {
+      // Doors are locked to the floor
+      groupY.style.display = 'none';
+      sliderY.value = '0';
+    }
+  }
+
+  private updateSelectedOpening() {
+    if (!this.selectedOpening) return;
+    const { wall, opening } = this.selectedOpening;
+    const entry = this.wallRegistry.get(wall)!;
+    const sliderX = document.getElementById('opening-pos-x') as HTMLInputElement;
+    const sliderY = document.getElementById('opening-pos-y') as HTMLInputElement;
+    const widthIn = document.getElementById('opening-width-input') as HTMLInputElement;
+    const heightIn = document.getElementById('opening-height-input') as HTMLInputElement;
+
+    const newWidth = parseFloat(widthIn.value);
+    const newHeight = parseFloat(heightIn.value);
+    if (isNaN(newWidth) || newWidth <= 0 || isNaN(newHeight) || newHeight <= 0) return;
+
+    const width = Math.min(newWidth, entry.length);
+    const height = Math.min(newHeight, entry.height);
+    const sizeChanged = width !== opening.width || height !== opening.height;
+
+    opening.width = width;
+    opening.height = height;
+    opening.offset = parseFloat(sliderX.value) || 0;
+    opening.sill = opening.type === 'window'
+      ? Math.max(0, Math.min(parseFloat(sliderY.value) || 0, entry.height - height))
+      : 0;
+
+    if (sizeChanged && opening.displayMesh) {
+      this.resizeOpeningDisplayMesh(opening);
+      this.syncOpeningToolbarRanges();
+    }
+
+    this.rebuildWallGeometry(wall, entry);
+
+    // Copies on the other walls it cuts through move to the same plan point
+    const t = 0.5 + opening.offset / Math.max(entry.length, 1e-6);
+    const [[ax, az], [bx, bz]] = entry.pts;
+    const at: Vec2 = [ax + (bx - ax) * t, az + (bz - az) * t];
+    this.linkedOpenings(wall, opening).forEach(({ wall: host, opening: copy }) => {
+      const hostEntry = this.wallRegistry.get(host)!;
+      copy.width = Math.min(width, hostEntry.length);
+      copy.height = Math.min(height, hostEntry.height);
+      copy.sill = opening.sill;
+      copy.offset = this.modelOpeningAlong(hostEntry, at).offset;
+      this.rebuildWallGeometry(host, hostEntry);
+    });
+  }
+
+  private deleteSelectedOpening() {
+    if (!this.selectedOpening) return;
+    const { wall, opening } = this.selectedOpening;
+    const entry = this.wallRegistry.get(wall)!;
+    const copies = this.linkedOpenings(wall, opening);
+    this.deselectOpening();
+
+    entry.openings = entry.openings.filter((o) => o !== opening);
+    if (opening.displayMesh) {
+      this.buildingGroup.remove(opening.displayMesh);
+      opening.displayMesh.geometry.dispose();
+      (opening.displayMesh.material as THREE.Material).dispose();
+    }
+
+    this.rebuildWallGeometry(wall, entry);
+    copies.forEach(({ wall: host, opening: copy }) => {
+      const hostEntry = this.wallRegistry.get(host)!;
+      hostEntry.openings = hostEntry.openings.filter((o) => o !== copy);
+      this.rebuildWallGeometry(host, hostEntry);
+    });
+    this.walkthroughController.syncEnvironment();
+  }
+
+  /** The other copies of an opening that was cut through more than one wall. */
+  private linkedOpenings(wall: THREE.Mesh, opening: WallOpening): Array<{ wall: THREE.Mesh; opening: WallOpening }> {
+    const copies: Array<{ wall: THREE.Mesh; opening: WallOpening }> = [];
+    if (opening.linkId === undefined) return copies;
+    this.wallRegistry.forEach((entry, mesh) => {
+      entry.openings.forEach((other) => {
+        if (other.linkId === opening.linkId && !(mesh === wall && other === opening)) copies.push({ wall: mesh, opening: other });
+      });
+    });
+    return copies;
+  }
+
   // ─── Cutout Placement Logic ───────────────────────────────────────────────
   private startCutoutPlacement(targetMesh: THREE.Mesh) {
     if (this.placementMode === 'none') return;
@@ -1593,13 +2497,7 @@ class HouseViewer {
     this.activeCutterMesh = new THREE.Mesh(geom, new THREE.MeshBasicMaterial({ color: 0xff0000, wireframe: true, transparent: true, opacity: 0.3 }));
 
     // Create the dummy display mesh
-    let displayMat;
-    if (this.placementMode === 'window') {
-      displayMat = new THREE.MeshStandardMaterial({ color: 0x93c5fd, metalness: 0.18, roughness: 0.08, transparent: true, opacity: 0.5, side: THREE.DoubleSide });
-    } else {
-      displayMat = new THREE.MeshStandardMaterial({ color: 0x7c3aed, metalness: 0.05, roughness: 0.6, transparent: true, opacity: 0.5, side: THREE.DoubleSide });
-    }
-    this.activeDisplayMesh = new THREE.Mesh(new THREE.BoxGeometry(this.cutterWidth, this.cutterHeight, 0.45), displayMat);
+    this.activeDisplayMesh = this.createOpeningDisplayMesh(this.placementMode, this.cutterWidth, this.cutterHeight);
 
     this.buildingGroup.add(this.activeCutterMesh);
     this.buildingGroup.add(this.activeDisplayMesh);
@@ -1678,28 +2576,20 @@ class HouseViewer {
   private applyCutout() {
     if (!this.activeWallTarget || !this.activeCutterMesh || !this.activeDisplayMesh) return;
 
-    const originalPos = this.activeWallTarget.position.clone();
-    const originalQuat = this.activeWallTarget.quaternion.clone();
-    const originalScale = this.activeWallTarget.scale.clone();
-
-    this.activeCutterMesh.updateMatrixWorld(true);
-    this.activeWallTarget.updateMatrixWorld(true);
-
-    // Perform CSG subtraction on the wall
-    const cutWallMesh = CSG.subtract(this.activeWallTarget, this.activeCutterMesh);
-    cutWallMesh.material = this.activeWallTarget.material;
-    const newGeometry = cutWallMesh.geometry.clone();
-    newGeometry.computeBoundingBox();
-    newGeometry.computeBoundingSphere();
-    newGeometry.computeVertexNormals();
-
-    // Replace actual wall geometry
-    this.activeWallTarget.geometry.dispose();
-    this.activeWallTarget.geometry = newGeometry;
-    this.activeWallTarget.position.copy(originalPos);
-    this.activeWallTarget.quaternion.copy(originalQuat);
-    this.activeWallTarget.scale.copy(originalScale);
-    this.activeWallTarget.updateMatrixWorld(true);
+    const entry = this.wallRegistry.get(this.activeWallTarget)!;
+    const sliderX = document.getElementById('cutout-pos-x') as HTMLInputElement;
+    const sliderY = document.getElementById('cutout-pos-y') as HTMLInputElement;
+
+    // Record the opening on the wall and regenerate its geometry from the list
+    entry.openings.push({
+      type: this.placementMode === 'window' ? 'window' : 'door',
+      offset: parseFloat(sliderX.value) || 0,
+      sill: parseFloat(sliderY.value) || 0,
+      width: this.cutterWidth,
+      height: this.cutterHeight,
+      displayMesh: this.activeDisplayMesh,
+    });
+    this.rebuildWallGeometry(this.activeWallTarget, entry);
 
     // Display Mesh shadow config
     if (this.placementMode === 'door') {
@@ -1745,405 +2635,402 @@ class HouseViewer {
 
   private loadDataFromJson(data: any, fileName: string) {
     const fileInfo = document.querySelector('.file-info') as HTMLElement;
-    const looksLikePlanPages = Array.isArray(data.pages) && data.pages.some((p: any) => {
-      const e = p?.entities;
-      return e && ((e.walls && e.walls.length) || e.windows_and_doors_floor_plans || e.roofing);
-    });
-
-    if (looksLikePlanPages) {
-      this.renderPlanPages(data as PlanJson, fileName);
-    } else if (data.records && Array.isArray(data.records)) {
-      this.renderNewFormat(data as NewJsonData, fileName);
-    } else if (data.walls && Array.isArray(data.walls)) {
-      if (data.walls.length > 0 && data.walls[0].start && data.walls[0].end) {
-        this.renderLineFormat(data, fileName);
-      } else {
-        this.renderOldFormat(data as OldJsonData, fileName);
-      }
-    } else {
-      fileInfo.textContent = 'Error: Unrecognised JSON format.';
-    }
-  }
-
-  // ═══════════════════════════════════════════════════════════════════════════
-  // PLAN PAGE renderer (pages[].entities.walls + windows_and_doors_floor_plans)
-  // ═══════════════════════════════════════════════════════════════════════════
-  private renderPlanPages(data: PlanJson, fileName: string) {
-    this.clearScene();
+    this.projectKey = String(data?.project_id ?? data?.project_metadata?.project_id ?? fileName);
+    const failLoad = (diagnostics: LoadDiagnostic[], message: string) => {
+      this.loadDiagnostics = diagnostics;
+      this.renderDiagnosticsDrawer();
+      fileInfo.textContent = message;
+    };
 
-    const fileInfo = document.querySelector('.file-info') as HTMLElement;
-    const pages = (data.pages || []).filter((p) => p.entities && ((p.entities.walls && p.entities.walls.length) || p.entities?.windows_and_doors_floor_plans || p.entities?.roofing));
-    if (!pages.length) {
-      fileInfo.textContent = 'No entities found in plan file.';
+    const loader = findFormatLoader(data);
+    if (!loader) {
+      const known = FORMAT_LOADERS.map((l) => l.name).join(', ');
+      failLoad([{ kind: 'schema', message: `${fileName}: no loader recognises this JSON (tried ${known})` }], 'Error: Unrecognised JSON format.');
       return;
     }
 
-    type WallDatum = {
-      x1: number; y1: number; x2: number; y2: number;
-      thicknessIn: number; heightFt: number; label: string; sourceId: string; pageId: string; pageLabel: string;
-    };
-
-    const walls: WallDatum[] = [];
-    const openings: OpeningBox[] = [];
-    const roofEdgeQueue: Array<{ edges: any; sourceId: string; pageId: string; pageLabel: string }> = [];
-    let roofEdgeCount = 0;
-
-    pages.forEach((page) => {
-      const entities = page.entities || {};
-      const sourceId = page.source_file_id || 'Unknown Source';
-      const pageLabel = `Page ${page.page_number_in_source_file ?? page.page_index ?? ''}`.trim();
-      const pageId = `${sourceId}::${page.page_number_in_source_file ?? page.page_index ?? Math.random().toString(36).slice(2)}`;
-      (entities.walls || []).forEach((wall, idx) => {
-        const coords = wall.geometry?.coordinates;
-        if (!coords) return;
-        const x1 = Number((coords as any).x1);
-        const y1 = Number((coords as any).y1);
-        const x2 = Number((coords as any).x2);
-        const y2 = Number((coords as any).y2);
-        if (!Number.isFinite(x1) || !Number.isFinite(y1) || !Number.isFinite(x2) || !Number.isFinite(y2)) return;
-
-        const thicknessIn = Number(wall.properties?.thickness_inches) || 6;
-        const heightFt = parseFeetInches(wall.properties?.wall_height, 9);
-        const label = normalizePlanLabel(wall.category || wall.properties?.category || wall.properties?.floor_label);
-
-        walls.push({
-          x1,
-          y1,
-          x2,
-          y2,
-          thicknessIn,
-          heightFt,
-          label: label || `Wall ${idx + 1}`,
-          sourceId,
-          pageId,
-          pageLabel,
-        });
-      });
-
-      const boxes = this.extractOpeningBoxes(entities.windows_and_doors_floor_plans);
-      openings.push(...boxes);
-
-      if (entities.roofing?.EdgesOnly) {
-        roofEdgeQueue.push({ edges: entities.roofing.EdgesOnly, sourceId, pageId, pageLabel });
-        roofEdgeCount += Array.isArray(entities.roofing.EdgesOnly.keypoints) ? entities.roofing.EdgesOnly.keypoints.length : 0;
-      }
-    });
-
-    if (!walls.length && !roofEdgeCount) {
-      fileInfo.textContent = 'No walls or roof edges present in plan file.';
+    const schemaCheck = loader.schema ? validateFormatSchema(data, loader.schema) : { fatal: false, diagnostics: [] };
+    if (schemaCheck.fatal) {
+      failLoad(schemaCheck.diagnostics, `Error: ${fileName} does not match the ${loader.name} schema.`);
       return;
     }
 
-    // Compute bounds for centering
-    let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
-    walls.forEach((w) => {
-      minX = Math.min(minX, w.x1, w.x2);
-      maxX = Math.max(maxX, w.x1, w.x2);
-      minY = Math.min(minY, w.y1, w.y2);
-      maxY = Math.max(maxY, w.y1, w.y2);
-    });
-    roofEdgeQueue.forEach(({ edges }) => {
-      const kp: any[] = edges?.keypoints || [];
-      kp.forEach((pair) => {
-        if (!Array.isArray(pair) || pair.length < 2) return;
-        const x1 = Number(pair[0]?.[0]);
-        const y1 = Number(pair[0]?.[1]);
-        const x2 = Number(pair[1]?.[0]);
-        const y2 = Number(pair[1]?.[1]);
-        if ([x1, y1, x2, y2].some((v) => !Number.isFinite(v))) return;
-        minX = Math.min(minX, x1, x2);
-        maxX = Math.max(maxX, x1, x2);
-        minY = Math.min(minY, y1, y2);
-        maxY = Math.max(maxY, y1, y2);
-      });
-    });
-    openings.forEach((b) => {
-      if (!Number.isFinite(b.xmin) || !Number.isFinite(b.xmax) || !Number.isFinite(b.ymin) || !Number.isFinite(b.ymax)) return;
-      minX = Math.min(minX, b.xmin, b.xmax);
-      maxX = Math.max(maxX, b.xmin, b.xmax);
-      minY = Math.min(minY, b.ymin, b.ymax);
-      maxY = Math.max(maxY, b.ymin, b.ymax);
-    });
-
-    const cx = (minX + maxX) / 2;
-    const cy = (minY + maxY) / 2;
-
-    if (!Number.isFinite(cx) || !Number.isFinite(cy)) {
-      fileInfo.textContent = 'Invalid geometry in plan file (non-finite coordinates).';
+    let model: BuildingModel;
+    try {
+      model = loader.load(data, fileName);
+    } catch (e) {
+      failLoad([{ kind: 'schema', message: `${loader.name} loader failed: ${e instanceof Error ? e.message : String(e)}` }], `Error: Could not load ${fileName}.`);
+      console.error(e);
       return;
     }
+    this.buildModel(model);
+    // The builder starts from a cleared list, so schema warnings go in front of theirs
+    this.loadDiagnostics.unshift(...schemaCheck.diagnostics);
+    this.renderDiagnosticsDrawer();
+
+    // Re-apply a calibration saved for this project
+    const stored = this.loadStoredCalibration();
+    if (stored !== 1) this.applyScaleCalibration(stored);
+  }
 
-    const wallTypeCounts: Record<string, number> = {};
-    const typeCounts: Record<string, number> = { wall: walls.length };
-    if (roofEdgeCount) typeCounts['roof'] = roofEdgeCount;
-
-    type WallSeg = {
-      mesh: THREE.Mesh;
-      a: THREE.Vector3;
-      b: THREE.Vector3;
-      thickness: number;
-      height: number;
-      label: string;
-      rotY: number;
-    };
-
-    const wallSegments: WallSeg[] = [];
-
-    walls.forEach((w, idx) => {
-      const a = new THREE.Vector3((w.x1 - cx) * SCALE, 0, (w.y1 - cy) * SCALE);
-      const b = new THREE.Vector3((w.x2 - cx) * SCALE, 0, (w.y2 - cy) * SCALE);
-
-      const dir = new THREE.Vector3().subVectors(b, a);
-      const length = dir.length();
-      if (!Number.isFinite(length) || length < 0.001) return;
-
-      const thickness = (w.thicknessIn || 6) * SCALE;
-      const height = w.heightFt || 9;
-      if (!Number.isFinite(thickness) || !Number.isFinite(height)) return;
-
-      const geo = new THREE.BoxGeometry(length, height, thickness);
-      const mat = new THREE.MeshStandardMaterial({ color: 0xd9d9d9, metalness: 0.05, roughness: 0.85 });
-      const mesh = new THREE.Mesh(geo, mat);
-      mesh.userData.sourceId = w.sourceId;
-      mesh.userData.pageId = w.pageId;
+  // ═══════════════════════════════════════════════════════════════════════════
+  // BUILDING MODEL builder — the one place loaded geometry becomes meshes
+  // ═══════════════════════════════════════════════════════════════════════════
+  private buildModel(model: BuildingModel) {
+    this.clearScene();
+    const loadStart = performance.now();
+    model.metadata.issues.forEach((issue) => this.reportLoadIssue(issue.kind, issue.message));
+    this.showScaleWarning(model.metadata.scaleWarning);
 
-      const mid = new THREE.Vector3().copy(a).lerp(b, 0.5);
-      mid.y = height / 2;
-      const rotY = -Math.atan2(dir.z, dir.x);
+    model.levels.forEach((level) => this.levels.set(level.id, { ...level }));
 
-      mesh.position.copy(mid);
-      mesh.rotation.y = rotY;
-      mesh.castShadow = true;
-      mesh.receiveShadow = true;
-      mesh.updateMatrix();
+    const typeCounts: Record<string, number> = { ...model.metadata.typeCounts };
+    const wallTypeCounts: Record<string, number> = {};
+    const count = (type: string) => { typeCounts[type] = (typeCounts[type] || 0) + 1; };
 
-      this.buildingGroup.add(mesh);
+    model.slabs.forEach((slab) => {
+      if (this.buildModelSlab(slab)) count(slab.type);
+    });
 
-      const label = w.label || `Wall ${idx + 1}`;
-      wallTypeCounts[label] = (wallTypeCounts[label] || 0) + 1;
-
-      const fakeRecord: NewRecord = {
-        materialType: 'wall',
-        settings: { name: label, type: label, height: String(height), floor_level: 'default' },
-        coordinates_real_world: [[w.x1, w.y1], [w.x2, w.y2]],
-        scale_factor_float: SCALE,
-      } as NewRecord;
-
-      this.wallRegistry.set(mesh, {
-        pts: [[a.x, a.z], [b.x, b.z]],
-        cx, cy,
-        height,
-        thickness,
-        length,
-        baseElev: 0,
-        label,
-        wallType: label,
-        record: fakeRecord,
-        originalColor: 0xd9d9d9,
-        worldPos: mid.clone(),
-        worldRotY: rotY,
+    const wallMeshes = model.walls.map((wall) => {
+      const mesh = this.buildModelWall(wall);
+      if (!mesh) return null;
+      count('wall');
+      wallTypeCounts[wall.wallType] = (wallTypeCounts[wall.wallType] || 0) + 1;
+      return mesh;
+    });
+    this.refreshDimensionCheck();
+
+    const cutWalls = new Set<THREE.Mesh>();
+    let doorCount = 0;
+    model.openings.forEach((opening) => {
+      count(opening.materialType ?? opening.kind);
+      if (opening.kind === 'door') doorCount++;
+      const hosts = this.modelOpeningHosts(opening, wallMeshes);
+      if (!hosts.length) {
+        this.reportLoadIssue('skipped_opening', `${opening.label} at (${opening.at[0].toFixed(1)}, ${opening.at[1].toFixed(1)}): no wall within ${MODEL_OPENING_REACH} ft`);
+        return;
+      }
+      const linkId = hosts.length > 1 ? this.nextOpeningLinkId++ : undefined;
+      hosts.forEach((host, idx) => {
+        this.addModelOpening(host, opening, idx === 0, linkId);
+        cutWalls.add(host);
       });
-
-      wallSegments.push({ mesh, a, b, thickness, height, label, rotY });
-      this.registerWallToSource(mesh, w.sourceId, w.pageId, w.pageLabel);
     });
-
-    // Render roof edges (if present) for each page/source
-    roofEdgeQueue.forEach((task) => {
-      this.renderRoofEdges(task.edges, cx, cy, task.sourceId, task.pageId, task.pageLabel);
+    // Every wall is placed now, so corners can be joined while openings are cut
+    this.rebuildAllWalls();
+
+    model.roof.facets.forEach((facet) => {
+      const mesh = this.buildRoofFacet(facet);
+      if (!mesh) return;
+      count(facet.type);
+      this.tagModelRoof(mesh, facet.levelId, facet.source);
+    });
+    model.roof.edges.forEach((edge) => {
+      const a = new THREE.Vector3(...edge.a);
+      const b = new THREE.Vector3(...edge.b);
+      const mesh = this.renderLine(a, b, MATERIAL_COLORS[edge.type] ?? MATERIAL_COLORS.default, edge.type);
+      if (!mesh) return;
+      count(edge.type);
+      mesh.userData.roof = true;
+      mesh.userData.roofEdge = edge.type;
+      this.tagModelRoof(mesh, edge.levelId, edge.source);
     });
 
-    const openingHeightDefault = 7; // feet
+    this.buildModelDetails(model.details, typeCounts);
 
-    if (!wallSegments.length) {
-      this.updateStatsPanel(typeCounts, wallTypeCounts);
-      this.addAutoFloorFromWalls();
-      fileInfo.textContent = `Plan ${fileName} — ${walls.length} walls, ${openings.length} openings`;
-      this.updateLegendForOldFormat();
-      this.frameCamera();
-      this.walkthroughController.syncEnvironment();
-      return;
-    }
-
-    openings.forEach((box) => {
-      const centerX = (box.xmin + box.xmax) / 2;
-      const centerY = (box.ymin + box.ymax) / 2;
-      const width = Math.max(0.1, (box.xmax - box.xmin) * SCALE);
+    this.applyConfidenceFilter();
+    this.updateStatsPanel(typeCounts, wallTypeCounts);
+    this.addAutoFloorFromWalls();
+    this.renderAssemblyTree();
+    this.renderLevelsPanel();
 
-      const center = new THREE.Vector3((centerX - cx) * SCALE, 0, (centerY - cy) * SCALE);
+    const windowCount = model.openings.length - doorCount;
+    const summary = `${this.wallRegistry.size} walls, ${doorCount} door${doorCount === 1 ? '' : 's'}, `
+      + `${windowCount} window${windowCount === 1 ? '' : 's'} cut in ${cutWalls.size} walls (${(performance.now() - loadStart).toFixed(0)} ms)`;
+    const fileInfo = document.querySelector('.file-info') as HTMLElement;
+    fileInfo.textContent = `${model.metadata.title} — ${[...model.metadata.notes, summary].join(', ')}`;
 
-      if (!Number.isFinite(center.x) || !Number.isFinite(center.z) || !Number.isFinite(width)) return;
+    if (model.metadata.legend === 'materials') this.updateLegendForNewFormat();
+    else this.updateLegendForOldFormat();
+    this.frameCamera();
+    this.walkthroughController.syncEnvironment();
+  }
 
-      let nearest: WallSeg | null = null;
-      let nearestDist = Infinity;
+  /** Wall mesh plus its registry entry; null (and a skipped_wall warning) for degenerate walls. */
+  private buildModelWall(wall: ModelWall): THREE.Mesh | null {
+    const [ax, az] = wall.start;
+    const [bx, bz] = wall.end;
+    const length = Math.hypot(bx - ax, bz - az);
+    if (!Number.isFinite(length) || length < 0.001 || !Number.isFinite(wall.height) || !Number.isFinite(wall.thickness)) {
+      this.reportLoadIssue('skipped_wall', `${wall.ref}: zero length`);
+      return null;
+    }
 
-      wallSegments.forEach((seg) => {
-        const ab = new THREE.Vector3().subVectors(seg.b, seg.a);
-        const ap = new THREE.Vector3().subVectors(center, seg.a);
-        const t = Math.max(0, Math.min(1, ap.dot(ab) / Math.max(ab.lengthSq(), 1e-6)));
-        const proj = seg.a.clone().addScaledVector(ab, t);
-        const dist = proj.distanceTo(center);
-        if (dist < nearestDist) {
-          nearestDist = dist;
-          nearest = seg;
-        }
-      });
+    const mat = new THREE.MeshStandardMaterial({ color: wall.color, metalness: 0.1, roughness: 0.8 });
+    // Square-ended box until rebuildAllWalls joins the corners and cuts the openings
+    const mesh = new THREE.Mesh(new THREE.BoxGeometry(length, wall.height, wall.thickness), mat);
+    const mid = new THREE.Vector3((ax + bx) / 2, wall.baseElev + wall.height / 2, (az + bz) / 2);
+    const rotY = -Math.atan2(bz - az, bx - ax);
+    mesh.position.copy(mid);
+    mesh.rotation.y = rotY;
+    mesh.castShadow = true;
+    mesh.receiveShadow = true;
+    this.buildingGroup.add(mesh);
 
-      if (!nearest) return;
+    const pts: [number, number][] = [[ax, az], [bx, bz]];
+    const expectedLength = parseDimensionText(wall.dimensionText);
+    const entry: WallEntry = {
+      pts,
+      height: wall.height,
+      thickness: wall.thickness,
+      length,
+      baseElev: wall.baseElev,
+      label: wall.label,
+      wallType: wall.wallType,
+      id: wall.id,
+      levelId: wall.levelId,
+      texture: 'none',
+      originalColor: wall.color,
+      worldPos: mid.clone(),
+      worldRotY: rotY,
+      openings: [],
+      assembly: wall.assembly,
+      dimension: expectedLength !== null ? { text: wall.dimensionText!.trim(), expected: expectedLength } : undefined,
+      confidence: wall.confidence,
+    };
+    this.wallRegistry.set(mesh, entry);
+    this.applyWallTexture(mesh, entry, wall.texture ?? 'none');
+
+    if (wall.source) {
+      mesh.userData.sourceId = wall.source.sourceId;
+      mesh.userData.pageId = wall.source.pageId;
+      mesh.userData.pageLabel = wall.source.pageLabel;
+      this.registerWallToSource(mesh, wall.source.sourceId, wall.source.pageId, wall.source.pageLabel, wall.levelId);
+    }
+    if (wall.levelId) mesh.userData.levelId = wall.levelId;
+    wall.issues?.forEach((issue) => this.reportLoadIssue(issue.kind, issue.message, mesh));
+    return mesh;
+  }
 
-      const nearestWall = nearest as WallSeg;
+  /**
+   * Walls an opening is cut into, closest first: the model's own hosts, else
+   * the nearest wall on the opening's storey (any storey when none is close).
+   */
+  private modelOpeningHosts(opening: ModelOpening, wallMeshes: Array<THREE.Mesh | null>): THREE.Mesh[] {
+    if (opening.hosts) {
+      return opening.hosts.map((idx) => wallMeshes[idx]).filter((mesh): mesh is THREE.Mesh => !!mesh);
+    }
 
-      const openingHeight = openingHeightDefault;
-      const thickness = nearestWall.thickness + 0.05; // ensure cut fully passes through
+    const findNearest = (sameLevelOnly: boolean) => {
+      let nearest: { mesh: THREE.Mesh; dist: number } | null = null;
+      this.wallRegistry.forEach((entry, mesh) => {
+        if (sameLevelOnly && Math.abs(entry.baseElev - opening.baseElev) > 1) return;
+        const dist = this.modelOpeningAlong(entry, opening.at).dist;
+        if (dist <= MODEL_OPENING_REACH && (!nearest || dist < nearest.dist)) nearest = { mesh, dist };
+      });
+      return nearest as { mesh: THREE.Mesh; dist: number } | null;
+    };
+    const nearest = findNearest(true) ?? findNearest(false);
+    return nearest ? [nearest.mesh] : [];
+  }
 
-      const geom = new THREE.BoxGeometry(width, openingHeight, thickness);
-      const mat = new THREE.MeshStandardMaterial({ color: 0x93c5fd, transparent: true, opacity: 0.35 });
-      const openingMesh = new THREE.Mesh(geom, mat);
-      openingMesh.position.set(center.x, openingHeight / 2, center.z);
-      openingMesh.rotation.y = nearestWall.rotY;
-      openingMesh.updateMatrix();
+  /** Where a plan point projects onto a wall: offset from its midpoint and distance off its centreline. */
+  private modelOpeningAlong(entry: WallEntry, [x, z]: Vec2): { offset: number; dist: number } {
+    const [[ax, az], [bx, bz]] = entry.pts;
+    const abx = bx - ax;
+    const abz = bz - az;
+    const t = Math.max(0, Math.min(1, ((x - ax) * abx + (z - az) * abz) / Math.max(abx * abx + abz * abz, 1e-6)));
+    return { offset: (t - 0.5) * entry.length, dist: Math.hypot(ax + abx * t - x, az + abz * t - z) };
+  }
 
-      // Subtract from nearest wall using CSG while keeping the same mesh reference
-      const wallMesh = nearestWall.mesh;
-      const wallCSG = CSG.fromMesh(wallMesh);
-      const openingCSG = CSG.fromMesh(openingMesh);
-      const result = wallCSG.subtract(openingCSG);
-      const resultMesh = CSG.toMesh(result, wallMesh.matrix, wallMesh.material as THREE.Material);
+  /**
+   * Records an opening on a wall. Unset sizes fall back to the shared head
+   * height; openings always stay under the top plates.
+   */
+  private addModelOpening(wall: THREE.Mesh, opening: ModelOpening, withDisplay: boolean, linkId?: number) {
+    const entry = this.wallRegistry.get(wall)!;
+    const width = Math.min(opening.width, entry.length);
+    const maxTop = Math.max(entry.height - TOP_PLATE_DEPTH, 0.5);
+    let sill: number;
+    let height: number;
+    if (opening.sill !== null) {
+      sill = Math.min(opening.sill, maxTop - 0.5);
+      height = Math.min(opening.height ?? (opening.kind === 'door' ? OPENING_HEAD_HEIGHT : WINDOW_DEFAULT_HEIGHT), maxTop - sill);
+    } else if (opening.kind === 'door') {
+      sill = 0;
+      height = Math.min(opening.height ?? OPENING_HEAD_HEIGHT, maxTop);
+    } else {
+      // Windows hang from the shared head height
+      const head = Math.min(OPENING_HEAD_HEIGHT, maxTop);
+      height = Math.min(opening.height ?? WINDOW_DEFAULT_HEIGHT, head);
+      sill = Math.max(0, head - height);
+    }
 
-      wallMesh.geometry.dispose();
-      wallMesh.geometry = resultMesh.geometry;
-      wallMesh.updateMatrix();
+    let displayMesh: THREE.Mesh | null = null;
+    if (withDisplay) {
+      displayMesh = this.createOpeningDisplayMesh(opening.kind, width, height);
+      if (opening.kind === 'door') displayMesh.userData.walkthroughDoor = true;
+      if (opening.portalOnly) {
+        displayMesh.visible = false;
+        displayMesh.userData.portalOnly = true;
+      }
+      if (opening.materialType) displayMesh.userData.materialType = opening.materialType;
+      this.buildingGroup.add(displayMesh);
+    }
+    entry.openings.push({
+      type: opening.kind,
+      offset: this.modelOpeningAlong(entry, opening.at).offset,
+      sill,
+      width,
+      height,
+      displayMesh,
+      linkId,
     });
-
-    this.updateStatsPanel(typeCounts, wallTypeCounts);
-    this.addAutoFloorFromWalls();
-    this.renderAssemblyTree();
-
-    fileInfo.textContent = `Plan ${fileName} — ${walls.length} walls, ${openings.length} openings`;
-    this.updateLegendForOldFormat();
-    this.frameCamera();
-    this.walkthroughController.syncEnvironment();
   }
 
-  private extractOpeningBoxes(floorPlan: any): OpeningBox[] {
-    if (!floorPlan) return [];
-    const boxes: OpeningBox[] = [];
-
-    const candidates = floorPlan.boxes || floorPlan.HeadersOnly?.boxes || floorPlan.Boxes || [];
-    if (Array.isArray(candidates)) {
-      candidates.forEach((box: any) => {
-        const parsed = toOpeningBox(box);
-        if (parsed) boxes.push(parsed);
-      });
+  /** Flat extruded slab; walkable ones replace the automatic floor. */
+  private buildModelSlab(slab: ModelSlab): THREE.Mesh | null {
+    if (slab.outline.length < 3) return null;
+    // Shape y is -z so the slab extrudes upwards once tipped onto the XZ plane
+    const shape = new THREE.Shape(slab.outline.map(([x, z]) => new THREE.Vector2(x, -z)));
+    const geo = new THREE.ExtrudeGeometry(shape, { depth: slab.thickness, bevelEnabled: false });
+    geo.rotateX(-Math.PI / 2);
+    const mat = new THREE.MeshStandardMaterial({
+      color: slab.color, roughness: 0.85, metalness: 0.02, side: THREE.DoubleSide,
+      transparent: slab.opacity < 1, opacity: slab.opacity,
+    });
+    const mesh = new THREE.Mesh(geo, mat);
+    mesh.position.y = slab.top - slab.thickness;
+    mesh.receiveShadow = true;
+    mesh.castShadow = !!slab.castShadow;
+    if (slab.levelId) mesh.userData.levelId = slab.levelId;
+    if (slab.walkable) {
+      mesh.userData.walkthroughFloor = true;
+      mesh.userData.areaSlab = true;
     }
-    return boxes;
+    this.buildingGroup.add(mesh);
+    return mesh;
   }
 
-  // ═══════════════════════════════════════════════════════════════════════════
-  // NEW FORMAT renderer
-  // ═══════════════════════════════════════════════════════════════════════════
-  private renderNewFormat(data: NewJsonData, _fileName: string) {
-    this.clearScene();
+  /** Roof facet lifted onto its plane, with a faint outline of its triangles. */
+  private buildRoofFacet(facet: ModelRoofFacet): THREE.Mesh | null {
+    if (facet.outline.length < 3) return null;
+    // Shape space (x, y) maps to world (x, z); y comes from the facet plane
+    const geo = new THREE.ShapeGeometry(new THREE.Shape(facet.outline.map(([x, z]) => new THREE.Vector2(x, z))));
+    const pos = geo.attributes.position as THREE.BufferAttribute;
+    for (let i = 0; i < pos.count; i++) {
+      const x = pos.getX(i);
+      const z = pos.getY(i);
+      pos.setXYZ(i, x, roofFacetHeightAt(facet, x, z), z);
+    }
+    pos.needsUpdate = true;
+    geo.computeVertexNormals();
+    geo.computeBoundingBox();
+    geo.computeBoundingSphere();
+
+    const mesh = new THREE.Mesh(geo, new THREE.MeshStandardMaterial({
+      color: facet.color, metalness: 0.05, roughness: 0.7, side: THREE.DoubleSide,
+      transparent: facet.opacity < 1, opacity: facet.opacity,
+    }));
+    mesh.castShadow = true;
+    mesh.receiveShadow = true;
+    mesh.userData.roof = true;
+    mesh.userData.roofFacet = true;
+    mesh.userData.pitch = facet.pitch;
+
+    const edges = new THREE.LineSegments(
+      new THREE.EdgesGeometry(geo),
+      new THREE.LineBasicMaterial({ color: 0xffffff, opacity: 0.3, transparent: true })
+    );
+    edges.position.y = 0.01;
+    mesh.add(edges);
+    this.buildingGroup.add(mesh);
+    return mesh;
+  }
 
-    const records = data.records;
-    if (!records || records.length === 0) return;
+  /** Roof parts follow the wall tops and, from plans, join their page in the assemblies panel. */
+  private tagModelRoof(mesh: THREE.Mesh, levelId: string, source?: ModelSource) {
+    mesh.userData.followsRoof = true;
+    if (source) {
+      mesh.userData.sourceId = source.sourceId;
+      mesh.userData.pageId = source.pageId;
+      this.registerRoofToSource(mesh, source.sourceId, source.pageId, source.pageLabel, levelId);
+    }
+  }
 
-    // ── 1. global bounds ─────────────────────────────────────────────────
-    let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
-    records.forEach(rec => {
-      rec.coordinates_real_world.forEach(([x, y]) => {
-        minX = Math.min(minX, x); maxX = Math.max(maxX, x);
-        minY = Math.min(minY, y); maxY = Math.max(maxY, y);
-      });
+  // ─── Estimate details (framing, facades, decks, stairs …) ─────────────────
+  // Drawn once every wall exists; facades and deck ledgers hang off them.
+  // Adds what they produce to `typeCounts`.
+  private buildModelDetails(details: ModelDetails, typeCounts: Record<string, number>) {
+    const add = (counts: Record<string, number>) => Object.entries(counts).forEach(([type, count]) => {
+      if (count) typeCounts[type] = (typeCounts[type] || 0) + count;
     });
-    const cx = (minX + maxX) / 2;
-    const cy = (minY + maxY) / 2;
 
-    // ── 2. counts ────────────────────────────────────────────────────────
-    const typeCounts: Record<string, number> = {};
-    const wallTypeCounts: Record<string, number> = {};
-
-    // ── 3. render ────────────────────────────────────────────────────────
-    records.forEach(rec => {
-      const pts = rec.coordinates_real_world;
-      if (!pts || pts.length === 0) return;
-
-      const mt = rec.materialType || 'default';
-      typeCounts[mt] = (typeCounts[mt] || 0) + 1;
-
-      const color = MATERIAL_COLORS[mt] ?? MATERIAL_COLORS.default;
-      const elev = ELEVATIONS[mt] ?? ELEVATIONS.default;
-      const pitch = parseFloat(rec.settings.pitch || '4');
-
-      const toV3 = ([x, y]: [number, number], z = 0): THREE.Vector3 =>
-        new THREE.Vector3((x - cx) * SCALE, z, (y - cy) * SCALE);
-
-      if (pts.length >= 3) {
-        this.renderPolygon(pts, cx, cy, pitch, color, elev);
-      } else if (pts.length === 2) {
-        if (mt === 'wall') {
-          // classify and count
-          const wt = categoriseWallType(rec.settings);
-          wallTypeCounts[wt] = (wallTypeCounts[wt] || 0) + 1;
-          this.renderWall(pts, rec.settings, cx, cy, color, rec);
-        } else {
-          this.renderLine(toV3(pts[0], elev), toV3(pts[1], elev), color, mt);
-        }
-      }
+    details.members.forEach((member) => this.buildOnLevel(member.levelId, member.type, () => this.renderStructuralMember(member)));
+    details.framing.forEach((framing) => this.buildOnLevel(framing.levelId, framing.type, () => add(this.renderFloorFraming(framing))));
+    details.stairs.forEach((stairs) => this.buildOnLevel(stairs.levelId, 'stairs', () => this.renderStairs(stairs)));
+    details.markup.forEach((markup) => {
+      const [produced] = this.buildOnLevel(markup.levelId, markup.type, () => this.renderMarkup(markup));
+      markup.issues?.forEach((issue) => this.reportLoadIssue(issue.kind, issue.message, produced));
     });
+    this.renderFacadeLayers(details.facades);
+    details.decks.forEach((deck) => this.buildOnLevel(deck.levelId, deck.type, () => add(this.renderDeck(deck))));
+  }
 
-    // ── 4. stats panel ───────────────────────────────────────────────────
-    this.updateStatsPanel(typeCounts, wallTypeCounts);
-    this.addAutoFloorFromWalls();
-
-    const fileInfo = document.querySelector('.file-info') as HTMLElement;
-    fileInfo.textContent = `Project ${data.project_id} — ${records.length} records loaded`;
+  /** Runs a detail builder and tags what it added with its level, or as following the roof. */
+  private buildOnLevel(levelId: string, type: string, build: () => void): THREE.Object3D[] {
+    const firstChild = this.buildingGroup.children.length;
+    build();
+    const produced = this.buildingGroup.children.slice(firstChild);
+    const followsRoof = ROOF_FOLLOWING_TYPES.has(type);
+    produced.forEach((obj) => {
+      if (levelId) obj.userData.levelId = levelId;
+      if (followsRoof) obj.userData.followsRoof = true;
+    });
+    return produced;
+  }
 
-    this.frameCamera();
-    this.updateLegendForNewFormat();
-    this.walkthroughController.syncEnvironment();
+  /** A line, or a filled outline whose vertices keep their own heights. */
+  private renderMarkup(markup: ModelMarkup) {
+    const color = MATERIAL_COLORS[markup.type] ?? MATERIAL_COLORS.default;
+    const [a, b] = markup.points.map((p) => new THREE.Vector3(...p));
+    if (markup.points.length === 2) this.renderLine(a, b, color, markup.type);
+    else this.renderPolygon(markup.points, color);
   }
 
   // ─── Polygon (roof panels) ────────────────────────────────────────────────
-  private renderPolygon(
-    pts: [number, number][],
-    cx: number,
-    cy: number,
-    _pitch: number,
-    color: number,
-    baseElev: number
-  ) {
-    const shape = new THREE.Shape();
-    const first = pts[0];
-    shape.moveTo((first[0] - cx) * SCALE, (first[1] - cy) * SCALE);
-    for (let i = 1; i < pts.length; i++) {
-      shape.lineTo((pts[i][0] - cx) * SCALE, (pts[i][1] - cy) * SCALE);
-    }
-    shape.closePath();
+  // Triangulated in plan; every vertex keeps its own height so sloped roof
+  // outlines and flat areas share one code path.
+  private renderPolygon(points: Array<[number, number, number]>, color: number) {
+    const faces = THREE.ShapeUtils.triangulateShape(points.map(([x, , z]) => new THREE.Vector2(x, z)), []);
+    if (!faces.length) return;
+    const geo = new THREE.BufferGeometry();
+    geo.setAttribute('position', new THREE.Float32BufferAttribute(points.flat(), 3));
+    geo.setIndex(faces.flat());
+    geo.computeVertexNormals();
+    geo.computeBoundingBox();
+    geo.computeBoundingSphere();
 
-    const geo = new THREE.ShapeGeometry(shape);
     const mat = new THREE.MeshStandardMaterial({
       color, metalness: 0.05, roughness: 0.7,
       side: THREE.DoubleSide, transparent: true, opacity: 0.82,
     });
     const mesh = new THREE.Mesh(geo, mat);
-    mesh.rotation.x = -Math.PI / 2;
-    mesh.position.y = baseElev;
-    this.buildingGroup.add(mesh);
 
     const edgesGeo = new THREE.EdgesGeometry(geo);
     const edgesMat = new THREE.LineBasicMaterial({ color: 0xffffff, opacity: 0.3, transparent: true });
     const edges = new THREE.LineSegments(edgesGeo, edgesMat);
-    edges.rotation.x = -Math.PI / 2;
-    edges.position.y = baseElev + 0.01;
-    this.buildingGroup.add(edges);
+    edges.position.y = 0.01;
+    mesh.add(edges);
+    this.buildingGroup.add(mesh);
   }
 
   // ─── Line (eave / ridge / hip …) ─────────────────────────────────────────
-  private renderLine(a: THREE.Vector3, b: THREE.Vector3, color: number, type: string) {
+  private renderLine(a: THREE.Vector3, b: THREE.Vector3, color: number, type: string): THREE.Mesh | null {
     const dir = new THREE.Vector3().subVectors(b, a);
     const length = dir.length();
-    if (length < 0.001) return;
+    if (length < 0.001) return null;
 
     const thickness = type === 'ridge_length' ? 0.25 : 0.15;
     const height = type === 'ridge_length' ? 0.3 : 0.12;
@@ -2154,619 +3041,398 @@ class HouseViewer {
 
     mesh.position.copy(a).lerp(b, 0.5);
     mesh.position.y += height / 2;
-    mesh.rotation.y = -Math.atan2(dir.z, dir.x);
+    // Align the box's length with the segment; sloped roof lines tilt with it
+    mesh.quaternion.setFromUnitVectors(new THREE.Vector3(1, 0, 0), dir.normalize());
     this.buildingGroup.add(mesh);
+    return mesh;
   }
 
-  // ─── Wall ─────────────────────────────────────────────────────────────────
-  private renderWall(
-    pts: [number, number][],
-    settings: NewRecord['settings'],
-    cx: number,
-    cy: number,
-    color: number,
-    record: NewRecord,
-    existingMesh?: THREE.Mesh    // pass to rebuild in-place
-  ): THREE.Mesh | null {
-    const a = new THREE.Vector3((pts[0][0] - cx) * SCALE, 0, (pts[0][1] - cy) * SCALE);
-    const b = new THREE.Vector3((pts[1][0] - cx) * SCALE, 0, (pts[1][1] - cy) * SCALE);
-
-    const dir = new THREE.Vector3().subVectors(b, a);
+  // ─── Headers / posts / beams ──────────────────────────────────────────────
+  private renderStructuralMember(member: ModelMember) {
+    const start = new THREE.Vector3(...member.a);
+    const end = new THREE.Vector3(...member.b);
+    const dir = new THREE.Vector3().subVectors(end, start);
     const length = dir.length();
-    if (length < 0.001) return null;
-
-    const floorLevel = (settings.floor_level as string) || 'default';
-    const baseElev = FLOOR_ELEVATIONS[floorLevel] ?? FLOOR_ELEVATIONS.default;
-    const height = parseFloat((settings.height as string) || '8');
-    const thickness = 0.33; // ~4 inches in feet
-
-    const geo = new THREE.BoxGeometry(length, height, thickness);
-    const mat = new THREE.MeshStandardMaterial({
-      color,
-      metalness: 0.1, roughness: 0.8,
-      emissive: new THREE.Color(0x000000),
-    });
-
-    const midPos = new THREE.Vector3().copy(a).lerp(b, 0.5);
-    midPos.y = baseElev + height / 2;
-    const rotY = -Math.atan2(dir.z, dir.x);
-
-    let mesh: THREE.Mesh;
-    if (existingMesh) {
-      existingMesh.geometry.dispose();
-      existingMesh.geometry = geo;
-      existingMesh.position.copy(midPos);
-      existingMesh.rotation.y = rotY;
-      mesh = existingMesh;
-    } else {
-      mesh = new THREE.Mesh(geo, mat);
-      mesh.position.copy(midPos);
-      mesh.rotation.y = rotY;
-      this.buildingGroup.add(mesh);
-    }
-
-    // Register / update registry
-    const wallType = categoriseWallType(settings);
-    this.wallRegistry.set(mesh, {
-      pts, cx, cy, height, thickness, length,
-      baseElev, label: settings.name || 'Wall', wallType, record,
-      originalColor: color,
-      worldPos: midPos.clone(),
-      worldRotY: rotY,
-    });
-    const entry = this.wallRegistry.get(mesh)!;
-    this.applyWallTexture(mesh, entry, typeof settings.texture === 'string' ? settings.texture : 'none');
+    if (length < 0.001) return;
 
-    return mesh;
+    // Posts stand upright; beams lie level along their run
+    const upright = Math.hypot(dir.x, dir.z) < 1e-6;
+    const geo = upright
+      ? new THREE.BoxGeometry(member.width, length, member.depth)
+      : new THREE.BoxGeometry(length, member.depth, member.width);
+    const color = MATERIAL_COLORS[member.type] ?? MATERIAL_COLORS.default;
+    const mat = new THREE.MeshStandardMaterial({ color, metalness: 0.05, roughness: 0.75 });
+    const mesh = new THREE.Mesh(geo, mat);
+    mesh.position.copy(start).lerp(end, 0.5);
+    if (!upright) mesh.rotation.y = -Math.atan2(dir.z, dir.x);
+    mesh.castShadow = true;
+    mesh.receiveShadow = true;
+    this.buildingGroup.add(mesh);
   }
 
-  private renderRoofEdges(edges: any, cx: number, cy: number, sourceId: string, pageId: string, pageLabel: string) {
-    if (!edges || !Array.isArray(edges.keypoints)) return;
-
-    const keypoints: any[] = edges.keypoints || [];
-    const pitchs: any[] = Array.isArray(edges.pitchs) ? edges.pitchs : [];
-    const classCandidates: any[] = Array.isArray(edges.class_ids) ? edges.class_ids : [];
-    const classList: any[] = classCandidates.find((arr) => Array.isArray(arr) && arr.length === keypoints.length) || [];
-
-    const material = new THREE.LineBasicMaterial({ color: 0xf97316, linewidth: 2, transparent: true, opacity: 0.9 });
-    const baseHeight = 9; // feet
-
-    keypoints.forEach((pair, idx) => {
-      if (!Array.isArray(pair) || pair.length < 2) return;
-      const p1 = pair[0];
-      const p2 = pair[1];
-      const x1 = Number(p1?.[0]);
-      const y1 = Number(p1?.[1]);
-      const x2 = Number(p2?.[0]);
-      const y2 = Number(p2?.[1]);
-      if (!Number.isFinite(x1) || !Number.isFinite(y1) || !Number.isFinite(x2) || !Number.isFinite(y2)) return;
-
-      const v1 = new THREE.Vector3((x1 - cx) * SCALE, baseHeight, (y1 - cy) * SCALE);
-      const v2 = new THREE.Vector3((x2 - cx) * SCALE, baseHeight, (y2 - cy) * SCALE);
+  // ─── Floor framing (joists / trusses + rim boards) ────────────────────────
+  // Outlines are filled with members at `spacing` along `runAxis` and closed
+  // with rim boards; lines are single members. Tops sit at the level's floor
+  // elevation. Returns member counts for stats.
+  private renderFloorFraming(framing: ModelFraming): { floor_joist: number; rim_board: number } {
+    const { points: pts, top: topY, spacing, runAxis } = framing;
+    const section = { width: framing.width, depth: framing.depth };
+    const color = MATERIAL_COLORS[framing.type] ?? MATERIAL_COLORS.default;
+
+    const pieces: THREE.BufferGeometry[] = [];
+    let joists = 0;
+    let rims = 0;
+    const addMember = (a: [number, number], b: [number, number]) => {
+      const geo = memberBoxGeometry(a, b, topY, section.width, section.depth);
+      if (!geo) return false;
+      pieces.push(geo);
+      return true;
+    };
 
-      const run = new THREE.Vector2(v2.x - v1.x, v2.z - v1.z).length();
-      const pitchCandidate = pitchs[idx];
-      let pitch = 9;
-      if (Array.isArray(pitchCandidate) && pitchCandidate.length) pitch = parseFloat(pitchCandidate[0]) || 9;
-      else if (typeof pitchCandidate === 'string' || typeof pitchCandidate === 'number') pitch = parseFloat(pitchCandidate as any) || 9;
+    if (pts.length === 2) {
+      if (addMember(pts[0], pts[1]) && framing.type === 'floor_system') joists++;
+    } else if (pts.length >= 3) {
+      const xs = pts.map((p) => p[0]);
+      const zs = pts.map((p) => p[1]);
+      const minX = Math.min(...xs), maxX = Math.max(...xs);
+      const minZ = Math.min(...zs), maxZ = Math.max(...zs);
+
+      // Joists run along `runAxis` and are spaced across the other axis
+      const spaceAxis = runAxis === 'x' ? 'z' : 'x';
+      const from = spaceAxis === 'x' ? minX : minZ;
+      const to = spaceAxis === 'x' ? maxX : maxZ;
+      for (let c = from + spacing; c < to - 1e-3; c += spacing) {
+        polygonScanSpans(pts, spaceAxis, c).forEach(([s0, s1]) => {
+          const a: [number, number] = spaceAxis === 'x' ? [c, s0] : [s0, c];
+          const b: [number, number] = spaceAxis === 'x' ? [c, s1] : [s1, c];
+          if (addMember(a, b)) joists++;
+        });
+      }
 
-      const deltaH = run * (pitch / 12);
-      const classId = Array.isArray(classList) ? classList[idx] : 0;
-      const isHorizontal = classId === 1 || classId === 4;
+      for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) {
+        if (addMember(pts[j], pts[i])) rims++;
+      }
+    }
 
-      if (!isHorizontal) v2.y = baseHeight + deltaH;
+    const counts = { floor_joist: joists, rim_board: rims };
+    if (!pieces.length) return counts;
+    const merged = mergeGeometries(pieces);
+    pieces.forEach((g) => g.dispose());
+    if (!merged) return counts;
 
-      const geom = new THREE.BufferGeometry().setFromPoints([v1, v2]);
-      const line = new THREE.Line(geom, material.clone());
-      line.userData = { roof: true, sourceId, pageId };
-      this.buildingGroup.add(line);
-      this.registerRoofToSource(line as unknown as THREE.Mesh, sourceId, pageId, pageLabel);
-    });
+    const mat = new THREE.MeshStandardMaterial({ color, metalness: 0.05, roughness: 0.8 });
+    const mesh = new THREE.Mesh(merged, mat);
+    mesh.castShadow = true;
+    mesh.receiveShadow = true;
+    this.buildingGroup.add(mesh);
+    return counts;
   }
 
-  // ═══════════════════════════════════════════════════════════════════════════
-  // LINE FORMAT renderer (e.g. 2bhk.json)
-  // ═══════════════════════════════════════════════════════════════════════════
-  private renderLineFormat(data: any, _fileName: string) {
-    this.clearScene();
-
-    const walls = data.walls || [];
-    if (!walls.length) return;
-
-    let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
-
-    walls.forEach((w: any) => {
-      if (w.start && w.end) {
-        minX = Math.min(minX, w.start.x, w.end.x);
-        maxX = Math.max(maxX, w.start.x, w.end.x);
-        minY = Math.min(minY, w.start.y, w.end.y);
-        maxY = Math.max(maxY, w.start.y, w.end.y);
+  // ─── Facade layers (siding / trim / flashing …) ───────────────────────────
+  // Each record is projected onto the outside face of the nearest exterior
+  // wall: its points give the extent along the wall, siding area gives the
+  // coverage height, linear items become bands (starter at the base,
+  // flashing at the top, trim at door-head height). One merged mesh per type
+  // and level so the legend can toggle them and the levels panel move them.
+  private renderFacadeLayers(facades: ModelFacade[]) {
+    const entries = Array.from(this.wallRegistry.values());
+    if (!entries.length) return;
+
+    const pieces = new Map<string, { mt: string; levelId: string; geos: THREE.BufferGeometry[] }>();
+    facades.forEach((facade) => {
+      const mt = facade.type;
+      const style = FACADE_LAYERS[mt];
+      const pts = facade.points;
+      const cxw = pts.reduce((sum, p) => sum + p[0], 0) / pts.length;
+      const czw = pts.reduce((sum, p) => sum + p[1], 0) / pts.length;
+
+      // Nearest wall to the record's centre: exterior walls on its level first
+      const onLevel = wallsOnLevel(entries, facade.levelId);
+      const exterior = onLevel.filter((entry) => EXTERIOR_WALL_TYPES.has(entry.wallType));
+      const host = nearestWallEntry(exterior.length ? exterior : onLevel, cxw, czw);
+      if (!host) return;
+      const wall = host.entry;
+
+      const dx = Math.cos(wall.worldRotY);
+      const dz = Math.sin(-wall.worldRotY);
+      const alongs = pts.map(([x, z]) => (x - wall.worldPos.x) * dx + (z - wall.worldPos.z) * dz);
+      let from = Math.max(-wall.length / 2, Math.min(...alongs));
+      let to = Math.min(wall.length / 2, Math.max(...alongs));
+      if (mt === 'post_wrap' || to - from < 0.05) {
+        // Point records wrap a post-sized strip around their projected position
+        const centre = Math.max(-wall.length / 2, Math.min(wall.length / 2, (from + to) / 2));
+        from = centre - 7.25 / 24;
+        to = centre + 7.25 / 24;
       }
-    });
-
-    if (!isFinite(minX)) return;
-    const cx = (minX + maxX) / 2;
-    const cy = (minY + maxY) / 2;
-
-    const wallTypeCounts: Record<string, number> = {};
-    const wallColor = 0x94a3b8;
-
-    let scaleFactor = 1;
-    if (data.units === 'inches') {
-      scaleFactor = SCALE; // 1/12
-    } else if (data.units === 'feet') {
-      scaleFactor = 1;
-    } else if (data.units === 'meters' || data.units === 'metres') {
-      scaleFactor = 3.28084;
-    }
-
-    const doorColor = 0x7c3aed;
-    const windowGlass = 0x93c5fd;
-
-    // 1. Prepare cutout meshes
-    const cutouts = data.cutouts || [];
-    const cutoutDataList: { mesh: THREE.Mesh, isWindow: boolean }[] = [];
-
-    cutouts.forEach((cutout: any) => {
-      if (!cutout.position) return;
-
-      const x = cutout.position.x;
-      const y = cutout.position.y;
-
-      const cutoutWidth = (cutout.width || 3) * scaleFactor;
-      const cutoutHeight = (cutout.height || 7) * scaleFactor;
-      // Make cutout thickness much larger than typical wall to guarantee a clean cut completely through
-      const thickness = 2.0;
-
-      let rotY = 0;
-      // Attempt to orient the cutout along the wall it sits on
-      walls.forEach((w: any) => {
-        if (!w.start || !w.end) return;
-        // Simple distance-to-point check
-        const distToStart = Math.hypot(x - w.start.x, y - w.start.y);
-        const distToEnd = Math.hypot(x - w.end.x, y - w.end.y);
-        const wallLen = Math.hypot(w.end.x - w.start.x, w.end.y - w.start.y);
-        // If x,y is roughly on the segment
-        if (distToStart + distToEnd <= wallLen + 0.1) {
-          rotY = -Math.atan2(w.end.y - w.start.y, w.end.x - w.start.x);
-        }
-      });
-
-      const isWindow = cutout.type === 'window';
-      const sillHeight = isWindow ? (cutout.sill_height || 3) * scaleFactor : 0;
-
-      const geom = new THREE.BoxGeometry(cutoutWidth, cutoutHeight, thickness);
-
-      let mat;
-      if (isWindow) {
-        mat = new THREE.MeshStandardMaterial({ color: windowGlass, metalness: 0.18, roughness: 0.08, transparent: true, opacity: 0.5, side: THREE.DoubleSide });
-      } else {
-        mat = new THREE.MeshStandardMaterial({ color: doorColor, metalness: 0.05, roughness: 0.6 });
+      const width = to - from;
+
+      let bottom = 0;
+      let height = wall.height;
+      if (mt === 'siding') {
+        if (facade.area !== null) height = Math.max(1, Math.min(wall.height, facade.area / width));
+      } else if (style.band !== null) {
+        height = style.band;
+        if (mt === 'flashing') bottom = wall.height - height;
+        else if (mt === 'trim') bottom = Math.min(wall.height - height, 6 + 8 / 12);
       }
 
-      const mesh = new THREE.Mesh(geom, mat);
-      const midPos = new THREE.Vector3((x - cx) * scaleFactor, sillHeight + cutoutHeight / 2, (y - cy) * scaleFactor);
-      mesh.position.copy(midPos);
-      mesh.rotation.y = rotY;
+      const normal = wallOutwardNormal(wall);
+      const offset = wall.thickness / 2 + style.gap + style.thickness / 2;
+      const mid = (from + to) / 2;
 
-      mesh.castShadow = !isWindow;
-      mesh.receiveShadow = true;
-
-      mesh.updateMatrix(); // bake matrix for CSG
-      cutoutDataList.push({ mesh, isWindow });
-
-      // We still add the window glass to the scene!
-      // But we will use the same geometry/mesh to subtract from wall. 
-      // Actually we should clone the mesh for the visible window so we can make the cutter bigger.
-      if (isWindow) {
-        const displayMesh = mesh.clone();
-        // Thin it back out for display
-        displayMesh.geometry = new THREE.BoxGeometry(cutoutWidth, cutoutHeight, 0.45);
-        this.buildingGroup.add(displayMesh);
-      } else {
-        const doorPortalMesh = mesh.clone();
-        doorPortalMesh.geometry = new THREE.BoxGeometry(cutoutWidth, cutoutHeight, 0.45);
-        doorPortalMesh.visible = false;
-        doorPortalMesh.userData.walkthroughDoor = true;
-        this.buildingGroup.add(doorPortalMesh);
-      }
+      const geo = new THREE.BoxGeometry(width, height, style.thickness);
+      geo.rotateY(wall.worldRotY);
+      geo.translate(
+        wall.worldPos.x + mid * dx + normal.x * offset,
+        wall.baseElev + bottom + height / 2,
+        wall.worldPos.z + mid * dz + normal.z * offset
+      );
+      const levelId = wall.levelId;
+      const key = `${mt}|${levelId}`;
+      if (!pieces.has(key)) pieces.set(key, { mt, levelId, geos: [] });
+      pieces.get(key)!.geos.push(geo);
     });
 
-    // 2. Build walls and subtract cutouts
-    walls.forEach((w: any) => {
-      if (!w.start || !w.end) return;
-
-      const x1 = w.start.x;
-      const y1 = w.start.y;
-      const x2 = w.end.x;
-      const y2 = w.end.y;
-
-      const dx = x2 - x1;
-      const dy = y2 - y1;
-      const length = Math.sqrt(dx * dx + dy * dy);
-
-      const actualLength = length * scaleFactor;
-      const wallHeight = (w.height || data.default_wall_height || 11) * scaleFactor;
-      const thickness = 0.5; // approx 6 inches
-
-      const geom = new THREE.BoxGeometry(actualLength, wallHeight, thickness);
-      const mat = new THREE.MeshStandardMaterial({ color: wallColor, flatShading: true, metalness: 0.0, roughness: 0.6 });
-      let wallMesh: THREE.Mesh = new THREE.Mesh(geom, mat);
-
-      const centerXpx = (x1 + x2) / 2;
-      const centerYpx = (y1 + y2) / 2;
-
-      // Note: y and z were swapped in THREE.js relative to typical 2D maps
-      const midPos = new THREE.Vector3((centerXpx - cx) * scaleFactor, wallHeight / 2, (centerYpx - cy) * scaleFactor);
-      wallMesh.position.copy(midPos);
-
-      // We negate the angle because z grows "forward" towards camera
-      const rotY = -Math.atan2(dy, dx);
-      wallMesh.rotation.y = rotY;
-      wallMesh.updateMatrix();
-
-      // CSG Subtraction
-      /*
-      cutoutDataList.forEach(cutoutData => {
-        // Rough bounding box intersection optimization could go here.
-        // For safety, we use CSG on all walls against all cutouts since the lists are small.
-        const cutWallMesh = CSG.subtract(wallMesh, cutoutData.mesh);
-        // keep material
-        cutWallMesh.material = mat;
-
-        // After subtract the matrix is baked in, so reset position/rotation
-        cutWallMesh.position.set(0, 0, 0);
-        cutWallMesh.rotation.set(0, 0, 0);
-        wallMesh = cutWallMesh;
-        wallMesh.castShadow = true;
-        wallMesh.receiveShadow = true;
-      });
-      */
-
-      wallMesh.castShadow = true;
-      wallMesh.receiveShadow = true;
-
-      this.buildingGroup.add(wallMesh);
-
-      const wallTypeLabel = w.room || 'Wall';
-      wallTypeCounts[wallTypeLabel] = (wallTypeCounts[wallTypeLabel] || 0) + 1;
-
-      const syntheticPts: [number, number][] = [
-        [(x1 - cx) * scaleFactor, (y1 - cy) * scaleFactor],
-        [(x2 - cx) * scaleFactor, (y2 - cy) * scaleFactor],
-      ];
-
-      const fakeRecord: NewRecord = {
-        materialType: 'wall',
-        settings: { id: w.id, name: wallTypeLabel, type: w.room, height: String(wallHeight), floor_level: 'default' },
-        coordinates_real_world: syntheticPts,
-        scale_factor_float: scaleFactor,
-      } as NewRecord;
-
-      this.wallRegistry.set(wallMesh, {
-        pts: syntheticPts,
-        cx, cy,
-        height: wallHeight,
-        thickness,
-        length: actualLength,
-        baseElev: 0,
-        label: wallTypeLabel,
-        wallType: wallTypeLabel,
-        record: fakeRecord,
-        originalColor: wallColor,
-        worldPos: midPos.clone(),
-        worldRotY: rotY,
+    pieces.forEach(({ mt, levelId, geos }) => {
+      const merged = mergeGeometries(geos);
+      geos.forEach((g) => g.dispose());
+      if (!merged) return;
+      const style = FACADE_LAYERS[mt];
+      const mat = new THREE.MeshStandardMaterial({
+        color: MATERIAL_COLORS[mt] ?? MATERIAL_COLORS.default,
+        metalness: style.metalness,
+        roughness: style.roughness,
       });
-    });
-
-    this.updateStatsPanel({}, wallTypeCounts);
-    this.addAutoFloorFromWalls();
-
-    const fileInfo = document.querySelector('.file-info') as HTMLElement;
-    fileInfo.textContent = `Applied: ${_fileName}`;
-
-    this.frameCamera();
-    this.updateLegendForOldFormat();
-    this.walkthroughController.syncEnvironment();
-  }
-
-  // ═══════════════════════════════════════════════════════════════════════════
-  // OLD FORMAT renderer
-  // ═══════════════════════════════════════════════════════════════════════════
-  private renderOldFormat(data: any, _fileName: string) {
-    this.clearScene();
-
-    const walls = data.walls || [];
-    const floors = data.floors || [];
-    const ceilings = data.ceilings || [];
-    const doors = data.doors || [];
-    const windows = data.windows || [];
-
-    if (!walls.length && !floors.length && !ceilings.length && !doors.length && !windows.length) return;
-
-    // Compute image-space bounds so we can center the building at world origin.
-    let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
-    const extendFromBbox = (bbox: any) => {
-      if (!bbox) return;
-      const x1 = Number(bbox.x1 ?? 0);
-      const y1 = Number(bbox.y1 ?? 0);
-      const x2 = Number(bbox.x2 ?? 0);
-      const y2 = Number(bbox.y2 ?? 0);
-      minX = Math.min(minX, x1, x2);
-      maxX = Math.max(maxX, x1, x2);
-      minY = Math.min(minY, y1, y2);
-      maxY = Math.max(maxY, y1, y2);
-    };
-
-    walls.forEach((w: any) => extendFromBbox(w.bbox));
-    floors.forEach((f: any) => extendFromBbox(f.bbox));
-    ceilings.forEach((c: any) => extendFromBbox(c.bbox));
-    doors.forEach((d: any) => extendFromBbox(d.bbox));
-    windows.forEach((w: any) => extendFromBbox(w.bbox));
-
-    // Guard: if bounds never set, bail
-    if (!isFinite(minX)) return;
-    const cx = (minX + maxX) / 2;
-    const cy = (minY + maxY) / 2;
-
-    // Count classes for stats panel
-    const classCounts: Record<string, number> = {};
-    const wallTypeCounts: Record<string, number> = {};
-
-    // Render floors/ceilings — non-selectable background
-    // Use a tall interior height: set ceiling at 20 ft so the space feels larger.
-    const defaultFloorHeight = 0; // ground
-    const defaultCeilingHeight = 20; // ft (user-requested larger ceiling)
-    const floorColor = 0x0b1220; // dark subtle
-    const ceilingColor = 0xe6eef8; // light subtle so ceiling is visible against background
-    const floorThicknessFt = 2;   // floor thickness in feet
-    const ceilingThicknessFt = 1; // ceiling thickness in feet
-
-    floors.forEach((f: any) => {
-      const bbox = f.bbox || {};
-      const x1 = Number(bbox.x1 ?? 0);
-      const y1 = Number(bbox.y1 ?? 0);
-      const x2 = Number(bbox.x2 ?? 0);
-      const y2 = Number(bbox.y2 ?? 0);
-      const width = Math.max(1, Math.abs(x2 - x1)) * SCALE;
-      const depth = Math.max(1, Math.abs(y2 - y1)) * SCALE;
-
-      // Create a thin box for the floor so it has thickness
-      const geo = new THREE.BoxGeometry(width, floorThicknessFt, depth);
-      const mat = new THREE.MeshStandardMaterial({ color: floorColor, side: THREE.DoubleSide, roughness: 0.85, metalness: 0.02 });
-      const mesh = new THREE.Mesh(geo, mat);
-      // Box geometry is centered — place it so top of floor sits at defaultFloorHeight
-      mesh.position.set(((x1 + x2) / 2 - cx) * SCALE, defaultFloorHeight + (floorThicknessFt / 2), ((y1 + y2) / 2 - cy) * SCALE);
-      mesh.userData.walkthroughFloor = true;
-      mesh.receiveShadow = true;
-      mesh.castShadow = false;
-      this.buildingGroup.add(mesh);
-    });
-
-    // Render ceilings (non-selectable)
-    ceilings.forEach((c: any) => {
-      const bbox = c.bbox || {};
-      const x1 = Number(bbox.x1 ?? 0);
-      const y1 = Number(bbox.y1 ?? 0);
-      const x2 = Number(bbox.x2 ?? 0);
-      const y2 = Number(bbox.y2 ?? 0);
-      const width = Math.max(1, Math.abs(x2 - x1)) * SCALE;
-      const depth = Math.max(1, Math.abs(y2 - y1)) * SCALE;
-
-      // Create a box for the ceiling so it has thickness
-      const geo = new THREE.BoxGeometry(width, ceilingThicknessFt, depth);
-      // Ceiling transparency: 50% transparent => opacity = 0.5
-      const mat = new THREE.MeshStandardMaterial({ color: ceilingColor, side: THREE.DoubleSide, transparent: true, opacity: 0.5, roughness: 0.9, metalness: 0.0 });
-      const mesh = new THREE.Mesh(geo, mat);
-      // Place the ceiling so its top aligns at defaultCeilingHeight (center lowered by half thickness)
-      mesh.position.set(((x1 + x2) / 2 - cx) * SCALE, defaultCeilingHeight - (ceilingThicknessFt / 2), ((y1 + y2) / 2 - cy) * SCALE);
+      const mesh = new THREE.Mesh(merged, mat);
+      mesh.castShadow = true;
       mesh.receiveShadow = true;
-      mesh.castShadow = false;
+      mesh.userData.facadeLayer = mt;
+      if (levelId) mesh.userData.levelId = levelId;
+      mesh.visible = !this.hiddenFacadeTypes.has(mt) && !this.hiddenLevels.has(levelId);
       this.buildingGroup.add(mesh);
     });
+  }
 
-    // Helper to compute orientation angle from various sources
-    const computeAngle = (obj: any, widthPx: number, heightPx: number) => {
-      let angleRad = 0;
-      try {
-        if (Array.isArray(obj.centerline_image) && obj.centerline_image.length >= 2) {
-          const a = obj.centerline_image[0];
-          const b = obj.centerline_image[1];
-          if (Array.isArray(a) && Array.isArray(b)) angleRad = Math.atan2(b[1] - a[1], b[0] - a[0]);
-        } else if (Array.isArray(obj.polygon_image) && obj.polygon_image.length >= 2) {
-          const a = obj.polygon_image[0];
-          const b = obj.polygon_image[1];
-          if (Array.isArray(a) && Array.isArray(b)) angleRad = Math.atan2(b[1] - a[1], b[0] - a[0]);
-        } else if (typeof obj._angle_deg === 'number' && !Number.isNaN(obj._angle_deg)) {
-          angleRad = (obj._angle_deg * Math.PI) / 180;
-        } else {
-          angleRad = widthPx >= heightPx ? 0 : Math.PI / 2;
-        }
-      } catch {
-        angleRad = widthPx >= heightPx ? 0 : Math.PI / 2;
+  private toggleFacadeLayer(type: string) {
+    if (this.hiddenFacadeTypes.has(type)) this.hiddenFacadeTypes.delete(type);
+    else this.hiddenFacadeTypes.add(type);
+    this.buildingGroup.children.forEach((child) => {
+      if (child.userData?.facadeLayer === type) {
+        child.visible = !this.hiddenFacadeTypes.has(type) && !this.hiddenLevels.has(child.userData.levelId);
       }
-      return angleRad;
-    };
-
-    // Render walls and register them for selection/editing
-    walls.forEach((w: any) => {
-      const bbox = w.bbox || {};
-      const x1 = Number(bbox.x1 ?? 0);
-      const y1 = Number(bbox.y1 ?? 0);
-      const x2 = Number(bbox.x2 ?? 0);
-      const y2 = Number(bbox.y2 ?? 0);
-      const widthPx = Math.abs(x2 - x1) || 1;
-      const heightPx = Math.abs(y2 - y1) || 1;
-
-      const angleRad = computeAngle(w, widthPx, heightPx);
-
-      // world sizes
-      const lengthPx = Math.max(widthPx, heightPx) || (w._length_px ?? 1);
-      const length = lengthPx * SCALE;
-      // Default wall height: slightly shorter than ceiling so there's a small gap for molding
-      const wallHeight = (w._height_ft ?? Math.max(defaultCeilingHeight - 0.5, 1));
-      const thicknessPx = Number(w._thickness_px ?? 10);
-      const thickness = Math.max(0.1, thicknessPx * SCALE);
-
-      const geom = new THREE.BoxGeometry(length, wallHeight, thickness);
-      const colorKey = (w.class && MATERIAL_COLORS && MATERIAL_COLORS[w.class]) ? w.class : 'perimeter_wall';
-      const color = (MATERIAL_COLORS && MATERIAL_COLORS[colorKey]) ? MATERIAL_COLORS[colorKey] : 0x94a3b8;
-      const mat = new THREE.MeshStandardMaterial({ color, flatShading: true, metalness: 0.0, roughness: 0.6 });
-      const mesh = new THREE.Mesh(geom, mat);
-
-      // Position relative to computed center so buildingGroup is centred at origin
-      const centerXpx = (x1 + x2) / 2;
-      const centerYpx = (y1 + y2) / 2;
-      const midPos = new THREE.Vector3((centerXpx - cx) * SCALE, wallHeight / 2, (centerYpx - cy) * SCALE);
-      mesh.position.copy(midPos);
-
-      const rotY = -angleRad;
-      mesh.rotation.y = rotY;
-
-      mesh.castShadow = true;
-      mesh.receiveShadow = true;
-
-      this.buildingGroup.add(mesh);
-
-      // Register wall for selection/editing similar to new-format registry
-      const wallTypeLabel = OLD_CLASS_LABEL[w.class] || w.class || 'Wall';
-      classCounts[w.class] = (classCounts[w.class] || 0) + 1;
-      wallTypeCounts[wallTypeLabel] = (wallTypeCounts[wallTypeLabel] || 0) + 1;
-
-      // synthetic world-space pts (two endpoints) for consistency with NewRecord shape
-      const syntheticPts: [number, number][] = [
-        [(x1 - cx) * SCALE, (y1 - cy) * SCALE],
-        [(x2 - cx) * SCALE, (y2 - cy) * SCALE],
-      ];
-
-      const fakeRecord: NewRecord = {
-        materialType: 'wall',
-        settings: { name: wallTypeLabel, type: w.class, height: String(wallHeight), floor_level: 'default' },
-        coordinates_real_world: syntheticPts,
-        scale_factor_float: SCALE,
-      } as NewRecord;
-
-      this.wallRegistry.set(mesh, {
-        pts: syntheticPts,
-        cx, cy,
-        height: wallHeight,
-        thickness,
-        length,
-        baseElev: 0,
-        label: wallTypeLabel,
-        wallType: wallTypeLabel,
-        record: fakeRecord,
-        originalColor: color,
-        worldPos: midPos.clone(),
-        worldRotY: rotY,
-      });
     });
+    this.updateLegendForNewFormat();
+  }
 
-    // Render doors (non-selectable)
-    const doorColor = 0x7c3aed; // subtle brown/purple for door fill
-    doors.forEach((d: any) => {
-      const bbox = d.bbox || {};
-      const x1 = Number(bbox.x1 ?? 0);
-      const y1 = Number(bbox.y1 ?? 0);
-      const x2 = Number(bbox.x2 ?? 0);
-      const y2 = Number(bbox.y2 ?? 0);
-      const widthPx = Math.abs(x2 - x1) || 1;
-      const heightPx = Math.abs(y2 - y1) || 1;
-      const angleRad = computeAngle(d, widthPx, heightPx);
-
-      const length = Math.max(widthPx, heightPx) * SCALE;
-      const doorHeight = d.height_ft ?? 7; // default 7 ft
-      const thickness = 0.2;
-
-      const geo = new THREE.BoxGeometry(length, doorHeight, thickness);
-      const mat = new THREE.MeshStandardMaterial({ color: doorColor, metalness: 0.05, roughness: 0.6 });
-      const mesh = new THREE.Mesh(geo, mat);
-      const centerXpx = (x1 + x2) / 2;
-      const centerYpx = (y1 + y2) / 2;
-      mesh.position.set((centerXpx - cx) * SCALE, doorHeight / 2, (centerYpx - cy) * SCALE);
-      mesh.rotation.y = -angleRad;
-      mesh.userData.walkthroughDoor = true;
-      mesh.castShadow = true;
-      mesh.receiveShadow = false;
-      this.buildingGroup.add(mesh);
-    });
+  // ─── Decks (boards, railings, ledgers, cantilever closures) ───────────────
+  // Returns derived part counts for the record breakdown.
+  private renderDeck(deck: ModelDeck): Record<string, number> {
+    const { type: mt, points: pts, top: deckTop } = deck;
+    const color = MATERIAL_COLORS[mt] ?? MATERIAL_COLORS.default;
+    const pieces: THREE.BufferGeometry[] = [];
+    const counts: Record<string, number> = {};
+    const push = (geo: THREE.BufferGeometry | null) => {
+      if (geo) pieces.push(geo);
+    };
 
-    // Render windows (glass + frames)
-    const windowGlass = 0x93c5fd; // light blue glass
-    const frameColor = 0x374151; // dark gray frame
-    windows.forEach((wi: any) => {
-      const bbox = wi.bbox || {};
-      const x1 = Number(bbox.x1 ?? 0);
-      const y1 = Number(bbox.y1 ?? 0);
-      const x2 = Number(bbox.x2 ?? 0);
-      const y2 = Number(bbox.y2 ?? 0);
-      const widthPx = Math.abs(x2 - x1) || 1;
-      const heightPx = Math.abs(y2 - y1) || 1;
-      const angleRad = computeAngle(wi, widthPx, heightPx);
-
-      const length = Math.max(widthPx, heightPx) * SCALE;
-      const winHeight = wi.height_ft ?? 4; // default window height
-      const thickness = 0.15;
-      // Glass pane
-      const geo = new THREE.BoxGeometry(length, winHeight, thickness);
-      // More glass-like: slightly reflective, low roughness, semi-transparent
-      const mat = new THREE.MeshStandardMaterial({ color: windowGlass, metalness: 0.18, roughness: 0.08, transparent: true, opacity: 0.5, side: THREE.DoubleSide });
-      const mesh = new THREE.Mesh(geo, mat);
-      const centerXpx = (x1 + x2) / 2;
-      const centerYpx = (y1 + y2) / 2;
-      const sill = wi.sill_ft ?? 3; // default sill height
-      mesh.position.set((centerXpx - cx) * SCALE, sill + winHeight / 2, (centerYpx - cy) * SCALE);
-      mesh.rotation.y = -angleRad;
-      mesh.castShadow = false;
-      mesh.receiveShadow = true;
-      this.buildingGroup.add(mesh);
+    if (mt === 'lf_fivedotfive_decking') {
+      if (pts.length < 3) return counts;
+      // Boards run along the deck's longer side, laid across it with a small gap
+      const xs = pts.map((p) => p[0]);
+      const zs = pts.map((p) => p[1]);
+      const alongX = Math.max(...xs) - Math.min(...xs) >= Math.max(...zs) - Math.min(...zs);
+      const stepAxis: 'x' | 'z' = alongX ? 'z' : 'x';
+      const lo = alongX ? Math.min(...zs) : Math.min(...xs);
+      const hi = alongX ? Math.max(...zs) : Math.max(...xs);
+      for (let c = lo + DECK_BOARD_WIDTH / 2; c < hi; c += DECK_BOARD_WIDTH + DECK_BOARD_GAP) {
+        polygonScanSpans(pts, stepAxis, c).forEach(([s0, s1]) => {
+          const a: [number, number] = alongX ? [s0, c] : [c, s0];
+          const b: [number, number] = alongX ? [s1, c] : [c, s1];
+          push(memberBoxGeometry(a, b, deckTop, DECK_BOARD_WIDTH, DECK_BOARD_THICKNESS));
+          counts.deck_board = (counts.deck_board || 0) + 1;
+        });
+      }
+    } else if (mt === 'lf_railing') {
+      if (pts.length < 2) return counts;
+      for (let i = 0; i + 1 < pts.length; i++) {
+        const a = pts[i];
+        const b = pts[i + 1];
+        const length = Math.hypot(b[0] - a[0], b[1] - a[1]);
+        if (length < 0.01) continue;
+        const at = (t: number): [number, number] => [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t];
+
+        // 4x4 posts at both ends and at most RAILING_POST_SPACING apart
+        const bays = Math.max(1, Math.ceil(length / RAILING_POST_SPACING));
+        for (let k = i === 0 ? 0 : 1; k <= bays; k++) {
+          const [x, z] = at(k / bays);
+          const post = new THREE.BoxGeometry(3.5 / 12, RAILING_HEIGHT + 2 / 12, 3.5 / 12);
+          post.translate(x, deckTop + (RAILING_HEIGHT + 2 / 12) / 2, z);
+          push(post);
+          counts.railing_post = (counts.railing_post || 0) + 1;
+        }
+        // Top and bottom rails
+        push(memberBoxGeometry(a, b, deckTop + RAILING_HEIGHT, 3.5 / 12, 1.5 / 12));
+        push(memberBoxGeometry(a, b, deckTop + 5 / 12, 3.5 / 12, 1.5 / 12));
+        // Balusters between the rails
+        const balusters = Math.floor(length / BALUSTER_SPACING);
+        for (let k = 1; k < balusters; k++) {
+          const [x, z] = at(k / balusters);
+          const baluster = new THREE.BoxGeometry(1.5 / 12, RAILING_HEIGHT - 5 / 12, 1.5 / 12);
+          baluster.translate(x, deckTop + 5 / 12 + (RAILING_HEIGHT - 5 / 12) / 2 - 1.5 / 12, z);
+          push(baluster);
+          counts.baluster = (counts.baluster || 0) + 1;
+        }
+      }
+    } else {
+      // Ledger / cantilever closure: a point record attached to the nearest wall
+      const host = nearestWallEntry(wallsOnLevel(Array.from(this.wallRegistry.values()), deck.levelId), pts[0][0], pts[0][1]);
+      if (!host) return counts;
+      const wall = host.entry;
+      const dx = Math.cos(wall.worldRotY);
+      const dz = Math.sin(-wall.worldRotY);
+      const normal = wallOutwardNormal(wall);
+
+      if (deck.ledger) {
+        // Roof ledgers sit at the wall top, deck ledgers under the boards
+        const section = deck.ledger;
+        const length = Math.min(wall.length, section.length);
+        const top = section.onRoof ? wall.baseElev + wall.height : deckTop - DECK_BOARD_THICKNESS;
+        const centre = Math.max(-wall.length / 2 + length / 2, Math.min(wall.length / 2 - length / 2, host.along));
+        const offset = wall.thickness / 2 + section.width / 2;
+        const cx = wall.worldPos.x + centre * dx + normal.x * offset;
+        const cz = wall.worldPos.z + centre * dz + normal.z * offset;
+        push(memberBoxGeometry(
+          [cx - dx * length / 2, cz - dz * length / 2],
+          [cx + dx * length / 2, cz + dz * length / 2],
+          top, section.width, section.depth
+        ));
+      } else {
+        // Closure panel under a cantilevered floor: 2' deep, 4' along the wall
+        const depth = 2;
+        const length = Math.min(wall.length, 4);
+        const offset = wall.thickness / 2 + depth / 2;
+        const geo = new THREE.BoxGeometry(length, 0.5 / 12, depth);
+        geo.rotateY(wall.worldRotY);
+        geo.translate(
+          wall.worldPos.x + host.along * dx + normal.x * offset,
+          deckTop - FLOOR_JOIST_DEPTH,
+          wall.worldPos.z + host.along * dz + normal.z * offset
+        );
+        push(geo);
+      }
+    }
 
-      // Frame: four thin boxes around the glass pane
-      const frameThickness = 0.08; // ft (about 1 inch)
-      const frameDepth = thickness + 0.02;
-      const halfW = length / 2;
-      const halfH = winHeight / 2;
-
-      // Helper to create a frame element at local (x, y)
-      const makeFrame = (offsetX: number, offsetY: number, w: number, h: number) => {
-        const fgeo = new THREE.BoxGeometry(w, h, frameDepth);
-        const fmat = new THREE.MeshStandardMaterial({ color: frameColor, metalness: 0.05, roughness: 0.6 });
-        const fmesh = new THREE.Mesh(fgeo, fmat);
-        fmesh.position.set((centerXpx - cx) * SCALE + offsetX, sill + winHeight / 2 + offsetY, (centerYpx - cy) * SCALE);
-        fmesh.rotation.y = -angleRad;
-        fmesh.castShadow = true;
-        fmesh.receiveShadow = true;
-        this.buildingGroup.add(fmesh);
-      };
+    const merged = pieces.length ? mergeGeometries(pieces) : null;
+    pieces.forEach((g) => g.dispose());
+    if (!merged) return counts;
+    const mesh = new THREE.Mesh(merged, new THREE.MeshStandardMaterial({ color, metalness: 0.05, roughness: 0.8 }));
+    mesh.castShadow = true;
+    mesh.receiveShadow = true;
+    // Deck boards are walkable and take guided stops
+    if (mt === 'lf_fivedotfive_decking') mesh.userData.walkthroughFloor = true;
+    this.buildingGroup.add(mesh);
+    return counts;
+  }
 
-      // Left vertical
-      makeFrame(-halfW + frameThickness / 2, 0, frameThickness, winHeight + frameThickness);
-      // Right vertical
-      makeFrame(halfW - frameThickness / 2, 0, frameThickness, winHeight + frameThickness);
-      // Top horizontal
-      makeFrame(0, halfH - frameThickness / 2, length + frameThickness, frameThickness);
-      // Bottom horizontal
-      makeFrame(0, -halfH + frameThickness / 2, length + frameThickness, frameThickness);
+  // ─── Stairs ───────────────────────────────────────────────────────────────
+  // A point footprint climbs towards the building centre; a line or outline
+  // footprint sets the direction and total run.
+  private renderStairs(stairs: ModelStairs) {
+    const { points: pts, base: fromElev, rise: totalRise, risers, width } = stairs;
+    const color = MATERIAL_COLORS.stairs ?? MATERIAL_COLORS.default;
+    const rise = totalRise / risers;
+    const treads = risers - 1;
+
+    // Footprint → start point, direction and (optionally) total run
+    let start = new THREE.Vector2(pts[0][0], pts[0][1]);
+    let dir: THREE.Vector2;
+    let footprintRun = 0;
+    if (pts.length === 2) {
+      const end = new THREE.Vector2(pts[1][0], pts[1][1]);
+      footprintRun = end.distanceTo(start);
+      dir = end.sub(start).normalize();
+    } else if (pts.length >= 3) {
+      const xs = pts.map((p) => p[0]);
+      const zs = pts.map((p) => p[1]);
+      const minX = Math.min(...xs), maxX = Math.max(...xs);
+      const minZ = Math.min(...zs), maxZ = Math.max(...zs);
+      if (maxX - minX >= maxZ - minZ) {
+        start = new THREE.Vector2(minX, (minZ + maxZ) / 2);
+        dir = new THREE.Vector2(1, 0);
+        footprintRun = maxX - minX;
+      } else {
+        start = new THREE.Vector2((minX + maxX) / 2, minZ);
+        dir = new THREE.Vector2(0, 1);
+        footprintRun = maxZ - minZ;
+      }
+    } else {
+      dir = Math.abs(start.x) >= Math.abs(start.y)
+        ? new THREE.Vector2(-Math.sign(start.x) || 1, 0)
+        : new THREE.Vector2(0, -Math.sign(start.y) || 1);
+    }
+    if (dir.lengthSq() === 0) dir = new THREE.Vector2(1, 0);
+
+    const run = footprintRun > 0 && treads > 0
+      ? Math.max(9 / 12, Math.min(11 / 12, footprintRun / treads))
+      : STAIR_TREAD_RUN;
+
+    // Build in stair space (+X = up the flight, origin at the first riser) then place
+    const steps: THREE.BufferGeometry[] = [];
+    const stringers: THREE.BufferGeometry[] = [];
+    const treadThickness = 1 / 12;
+    const nosing = 1 / 12;
+    for (let i = 1; i <= treads; i++) {
+      const tread = new THREE.BoxGeometry(run + nosing, treadThickness, width);
+      tread.translate((i - 0.5) * run - nosing / 2, i * rise - treadThickness / 2, 0);
+      steps.push(tread);
+    }
+    for (let i = 0; i < risers; i++) {
+      const riser = new THREE.BoxGeometry(0.75 / 12, rise, width);
+      riser.translate(i * run, (i + 0.5) * rise, 0);
+      steps.push(riser);
+    }
+    const stringerSection = stairs.stringer;
+    const totalRun = Math.max(run, treads * run);
+    const slopeLen = Math.hypot(totalRun, totalRise);
+    const slopeAngle = Math.atan2(totalRise, totalRun);
+    [-1, 1].forEach((side) => {
+      const stringer = new THREE.BoxGeometry(slopeLen, stringerSection.depth, stringerSection.width);
+      stringer.rotateZ(slopeAngle);
+      stringer.translate(
+        totalRun / 2,
+        totalRise / 2 - stringerSection.depth / 2 / Math.cos(slopeAngle),
+        side * (width / 2 - stringerSection.width / 2)
+      );
+      stringers.push(stringer);
     });
 
-    // Update stats panel (old-format doesn't have material type counts)
-    // Include floors/ceilings/doors/windows counts in the typeCounts passed to the UI so they're visible
-    const extraTypeCounts: Record<string, number> = {};
-    if (floors.length) extraTypeCounts['floor'] = floors.length;
-    if (ceilings.length) extraTypeCounts['ceiling'] = ceilings.length;
-    if (doors.length) extraTypeCounts['door'] = doors.length;
-    if (windows.length) extraTypeCounts['window'] = windows.length;
-
-    this.updateStatsPanel(extraTypeCounts, wallTypeCounts);
-    if (!floors.length) this.addAutoFloorFromWalls();
-
-    const fileInfo = document.querySelector('.file-info') as HTMLElement;
-    fileInfo.textContent = `Applied: ${_fileName}`;
+    const place = (geo: THREE.BufferGeometry) => {
+      geo.rotateY(-Math.atan2(dir.y, dir.x));
+      geo.translate(start.x, fromElev, start.y);
+    };
 
-    this.frameCamera();
-    this.updateLegendForOldFormat();
-    this.walkthroughController.syncEnvironment();
+    const stepGeo = mergeGeometries(steps);
+    const stringerGeo = mergeGeometries(stringers);
+    steps.forEach((g) => g.dispose());
+    stringers.forEach((g) => g.dispose());
+
+    if (stepGeo) {
+      place(stepGeo);
+      const stepMesh = new THREE.Mesh(stepGeo, new THREE.MeshStandardMaterial({ color, metalness: 0.05, roughness: 0.7 }));
+      stepMesh.castShadow = true;
+      stepMesh.receiveShadow = true;
+      // Treads are walkable so free walkthrough can climb between floors
+      stepMesh.userData.walkthroughStairs = true;
+      this.buildingGroup.add(stepMesh);
+    }
+    if (stringerGeo) {
+      place(stringerGeo);
+      const stringerMesh = new THREE.Mesh(stringerGeo, new THREE.MeshStandardMaterial({ color: 0x78350f, metalness: 0.05, roughness: 0.8 }));
+      stringerMesh.castShadow = true;
+      this.buildingGroup.add(stringerMesh);
+    }
   }
+
   // private renderOldFormat(data: OldJsonData, _fileName: string) {
   //   this.clearScene();
 
@@ -2914,7 +3580,7 @@ class HouseViewer {
 
   // ─── Raycasting ───────────────────────────────────────────────────────────
   private getWallMeshes(): THREE.Mesh[] {
-    return Array.from(this.wallRegistry.keys()).filter((mesh) => mesh.visible !== false);
+    return Array.from(this.wallRegistry.keys()).filter((mesh) => mesh.visible !== false && !mesh.userData.belowConfidence);
   }
 
   private getFloorMeshes(): THREE.Mesh[] {
@@ -2924,6 +3590,13 @@ class HouseViewer {
       .filter((mesh) => mesh.userData && mesh.userData.walkthroughFloor === true);
   }
 
+  private getWalkableMeshes(): THREE.Mesh[] {
+    return this.buildingGroup.children
+      .filter((child) => (child as THREE.Mesh).isMesh && child.visible !== false)
+      .map((child) => child as THREE.Mesh)
+      .filter((mesh) => mesh.userData && (mesh.userData.walkthroughFloor === true || mesh.userData.walkthroughStairs === true));
+  }
+
   private getDoorOpeningMeshes(): THREE.Mesh[] {
     return this.buildingGroup.children
       .filter((child) => (child as THREE.Mesh).isMesh)
@@ -2963,6 +3636,11 @@ class HouseViewer {
 
     this.raycaster.setFromCamera(this.pointer, this.camera);
 
+    if (this.calibration) {
+      if (this.handleCalibrationClick()) e.stopPropagation();
+      return;
+    }
+
     if (this.walkthroughController.tryAddStopFromRay(this.raycaster)) {
       e.stopPropagation();
       return;
@@ -2971,6 +3649,16 @@ class HouseViewer {
     const wallMeshes = this.getWallMeshes();
     const hits = this.raycaster.intersectObjects(wallMeshes, false);
 
+    if (this.wallEditEnabled && this.placementMode === 'none') {
+      const picked = this.pickOpening(hits);
+      if (picked) {
+        this.selectOpening(picked.wall, picked.opening);
+        e.stopPropagation();
+        return;
+      }
+    }
+    this.deselectOpening();
+
     if (hits.length > 0) {
       const hit = hits[0].object as THREE.Mesh;
       if (this.placementMode !== 'none') {
@@ -3000,10 +3688,11 @@ class HouseViewer {
 
     this.raycaster.setFromCamera(this.pointer, this.camera);
     const wallHits = this.raycaster.intersectObjects(this.getWallMeshes(), false);
+    const openingHit = this.wallEditEnabled && this.pickOpening(wallHits) !== null;
     const floorHits = this.raycaster.intersectObjects(this.getFloorMeshes(), false);
     const shouldShowHover = this.placementMode !== 'none' || this.wallEditEnabled;
     const showForPathEdit = floorHits.length > 0 && (document.getElementById('guided-path-edit-toggle') as HTMLInputElement).checked;
-    document.body.classList.toggle('wall-hover', (shouldShowHover && wallHits.length > 0) || showForPathEdit);
+    document.body.classList.toggle('wall-hover', (shouldShowHover && wallHits.length > 0) || openingHit || showForPathEdit);
   }
 
   private selectWall(mesh: THREE.Mesh) {
@@ -3034,8 +3723,14 @@ class HouseViewer {
 
   private dehighlightWall(mesh: THREE.Mesh) {
     const mat = mesh.material as THREE.MeshStandardMaterial;
-    mat.emissive.set(0x000000);
-    mat.emissiveIntensity = 0;
+    // Walls failing the dimension check keep a red tint while not selected
+    if (mesh.userData.dimensionMismatch) {
+      mat.emissive.set(DIMENSION_MISMATCH_EMISSIVE);
+      mat.emissiveIntensity = 0.35;
+    } else {
+      mat.emissive.set(0x000000);
+      mat.emissiveIntensity = 0;
+    }
   }
 
   // ─── Modal ────────────────────────────────────────────────────────────────
@@ -3049,14 +3744,16 @@ class HouseViewer {
     const mat = mesh.material as THREE.MeshStandardMaterial;
 
     labelEl.textContent = entry.label.replace(/(^\w+\s+){2}/, '') || entry.label;
-    const settingsAny = entry.record.settings as Record<string, unknown>;
-    const wallId = settingsAny.id ?? settingsAny.wall_id ?? settingsAny.room_id ?? null;
-    typeEl.textContent = wallId ? `ID: ${String(wallId)}` : entry.wallType;
+    typeEl.textContent = entry.id ? `ID: ${entry.id}` : entry.wallType;
     heightIn.value = entry.height.toFixed(2);
     lengthIn.value = entry.length.toFixed(2);
     widthIn.value = entry.thickness.toFixed(2);
-    this.setModalColorControls(`#${mat.color.getHexString()}`);
-    this.setModalTextureSelection(this.getWallTextureKey(mesh, entry));
+    const rampTinted = this.confidenceRamp && entry.confidence !== undefined;
+    this.setModalColorControls(rampTinted ? `#${new THREE.Color(entry.originalColor).getHexString()}` : `#${mat.color.getHexString()}`);
+    this.setModalTextureSelection(this.getWallTextureKey(entry));
+    document.querySelectorAll<HTMLInputElement>('#wall-assembly-options input[data-assembly-key]').forEach((input) => {
+      input.checked = !!entry.assembly?.[input.dataset.assemblyKey as keyof WallAssembly];
+    });
 
     modal.style.display = 'flex';
     this.controls.enabled = false;
@@ -3084,7 +3781,12 @@ class HouseViewer {
     const newThickness = parseFloat(widthIn.value);
     const newColorHex = this.normalizeHexColor(colorIn.value);
     const textureKey = this.normalizeTextureKey(this.activeModalTextureKey);
+    const assembly = readWallAssembly(undefined);
+    document.querySelectorAll<HTMLInputElement>('#wall-assembly-options input[data-assembly-key]').forEach((input) => {
+      assembly[input.dataset.assemblyKey as keyof WallAssembly] = input.checked;
+    });
     const beforeSnapshot = this.captureWallSnapshot(mesh, entry);
+    const neighbours = new Set(this.wallsTouching(mesh, entry));
 
     if (
       isNaN(newHeight) || newHeight <= 0 ||
@@ -3093,10 +3795,6 @@ class HouseViewer {
       !newColorHex
     ) return;
 
-    // Rebuild geometry with new dimensions
-    mesh.geometry.dispose();
-    mesh.geometry = new THREE.BoxGeometry(newLength, newHeight, newThickness);
-
     // Keep the wall centred at its original world-space midpoint,
     // just update the Y so it sits correctly for the new height
     mesh.position.copy(entry.worldPos);
@@ -3110,13 +3808,22 @@ class HouseViewer {
     entry.height = newHeight;
     entry.length = newLength;
     entry.thickness = newThickness;
+    entry.assembly = assembly;
+    this.syncWallEndpoints(entry);
     entry.originalColor = mat.color.getHex();
-    (entry.record.settings as any).color = newColorHex;
-    this.applyWallTexture(mesh, entry, textureKey);
     // Update worldPos Y to match the new height centre
     entry.worldPos.y = mesh.position.y;
+
+    // Rebuild geometry with new dimensions, re-cutting its openings, then
+    // re-join every wall it met before or meets now
+    this.rebuildWallGeometry(mesh, entry);
+    this.wallsTouching(mesh, entry).forEach((wall) => neighbours.add(wall));
+    neighbours.forEach((wall) => this.rebuildWallGeometry(wall, this.wallRegistry.get(wall)!));
+    this.applyWallTexture(mesh, entry, textureKey);
     this.addAutoFloorFromWalls();
     this.refreshEstimateIfOpen();
+    this.refreshDimensionCheck();
+    if (this.confidenceRamp) this.applyConfidenceFilter();
     this.walkthroughController.syncEnvironment();
 
     const afterSnapshot = this.captureWallSnapshot(mesh, entry);
@@ -3126,6 +3833,14 @@ class HouseViewer {
     this.closeModal();
   }
 
+  /** Recomputes a wall's plan endpoints from its midpoint, rotation and length. */
+  private syncWallEndpoints(entry: WallEntry) {
+    const half = entry.length / 2;
+    const dx = Math.cos(entry.worldRotY) * half;
+    const dz = -Math.sin(entry.worldRotY) * half;
+    entry.pts = [[entry.worldPos.x - dx, entry.worldPos.z - dz], [entry.worldPos.x + dx, entry.worldPos.z + dz]];
+  }
+
   private captureWallSnapshot(mesh: THREE.Mesh, entry: WallEntry): WallEditSnapshot {
     const mat = mesh.material as THREE.MeshStandardMaterial;
     return {
@@ -3133,7 +3848,8 @@ class HouseViewer {
       length: entry.length,
       thickness: entry.thickness,
       colorHex: `#${mat.color.getHexString()}`,
-      textureKey: this.getWallTextureKey(mesh, entry),
+      textureKey: this.getWallTextureKey(entry),
+      assembly: wallAssemblyKey(entry.assembly ?? readWallAssembly(undefined)),
       baseElev: entry.baseElev,
       worldPos: entry.worldPos.clone(),
       worldRotY: entry.worldRotY,
@@ -3143,9 +3859,8 @@ class HouseViewer {
   private applyWallSnapshot(mesh: THREE.Mesh, snapshot: WallEditSnapshot) {
     const entry = this.wallRegistry.get(mesh);
     if (!entry) return;
+    const neighbours = new Set(this.wallsTouching(mesh, entry));
 
-    mesh.geometry.dispose();
-    mesh.geometry = new THREE.BoxGeometry(snapshot.length, snapshot.height, snapshot.thickness);
     mesh.position.copy(snapshot.worldPos);
     mesh.position.y = snapshot.baseElev + snapshot.height / 2;
     mesh.rotation.y = snapshot.worldRotY;
@@ -3156,12 +3871,17 @@ class HouseViewer {
     entry.height = snapshot.height;
     entry.length = snapshot.length;
     entry.thickness = snapshot.thickness;
+    entry.assembly = wallAssemblyFromKey(snapshot.assembly);
     entry.baseElev = snapshot.baseElev;
     entry.worldPos.copy(snapshot.worldPos);
     entry.worldPos.y = mesh.position.y;
     entry.worldRotY = snapshot.worldRotY;
+    this.syncWallEndpoints(entry);
     entry.originalColor = mat.color.getHex();
-    (entry.record.settings as any).color = snapshot.colorHex;
+    // Openings are not part of the snapshot; they are re-cut at the restored size
+    this.rebuildWallGeometry(mesh, entry);
+    this.wallsTouching(mesh, entry).forEach((wall) => neighbours.add(wall));
+    neighbours.forEach((wall) => this.rebuildWallGeometry(wall, this.wallRegistry.get(wall)!));
     this.applyWallTexture(mesh, entry, snapshot.textureKey);
   }
 
@@ -3171,7 +3891,8 @@ class HouseViewer {
       before.length === after.length &&
       before.thickness === after.thickness &&
       before.colorHex === after.colorHex &&
-      before.textureKey === after.textureKey;
+      before.textureKey === after.textureKey &&
+      before.assembly === after.assembly;
     if (isSame) return;
 
     this.undoStack.push({ mesh, before, after });
@@ -3189,6 +3910,8 @@ class HouseViewer {
     if (this.redoStack.length > this.maxHistorySize) this.redoStack.shift();
     this.addAutoFloorFromWalls();
     this.refreshEstimateIfOpen();
+    this.refreshDimensionCheck();
+    if (this.confidenceRamp) this.applyConfidenceFilter();
     this.walkthroughController.syncEnvironment();
   }
 
@@ -3202,6 +3925,8 @@ class HouseViewer {
     if (this.undoStack.length > this.maxHistorySize) this.undoStack.shift();
     this.addAutoFloorFromWalls();
     this.refreshEstimateIfOpen();
+    this.refreshDimensionCheck();
+    if (this.confidenceRamp) this.applyConfidenceFilter();
     this.walkthroughController.syncEnvironment();
   }
 
@@ -3233,13 +3958,217 @@ class HouseViewer {
   }
 
   // ─── Scene helpers ────────────────────────────────────────────────────────
+  // ─── Scale calibration ───────────────────────────────────────────────────
+  // The user picks two points on a wall or floor and types their real
+  // distance; the scene is rescaled horizontally (heights are already in feet)
+  // and the cumulative factor is saved per project in localStorage.
+  private initCalibrationListeners() {
+    document.getElementById('calibrate-scale-btn')?.addEventListener('click', () => {
+      if (this.calibration) this.cancelCalibration();
+      else this.startCalibration();
+    });
+    document.getElementById('calibration-cancel-btn')?.addEventListener('click', () => this.cancelCalibration());
+    document.getElementById('calibration-apply-btn')?.addEventListener('click', () => this.applyCalibrationFromInput());
+    document.getElementById('calibration-distance')?.addEventListener('keydown', (e) => {
+      if ((e as KeyboardEvent).key === 'Enter') this.applyCalibrationFromInput();
+    });
+    this.updateCalibrationUI();
+  }
+
+  private startCalibration() {
+    if (!this.wallRegistry.size) return;
+    this.deselectOpening();
+    this.deselectWall();
+    this.calibration = { points: [], markers: [] };
+    this.updateCalibrationUI();
+  }
+
+  private cancelCalibration() {
+    if (!this.calibration) return;
+    this.calibration.markers.forEach((marker) => {
+      this.scene.remove(marker);
+      const m = marker as THREE.Mesh;
+      m.geometry?.dispose();
+      const mat = m.material;
+      if (Array.isArray(mat)) mat.forEach((x) => x.dispose());
+      else if (mat) (mat as THREE.Material).dispose();
+    });
+    this.calibration = null;
+    this.updateCalibrationUI();
+  }
+
+  /** Picks a calibration point from the current ray; returns true when a point was taken. */
+  private handleCalibrationClick(): boolean {
+    if (!this.calibration || this.calibration.points.length >= 2) return false;
+    const hits = this.raycaster.intersectObjects([...this.getWallMeshes(), ...this.getFloorMeshes()], false);
+    if (!hits.length) return false;
+
+    const point = hits[0].point.clone();
+    const marker = new THREE.Mesh(
+      new THREE.SphereGeometry(0.35, 16, 12),
+      new THREE.MeshBasicMaterial({ color: 0xfacc15, depthTest: false })
+    );
+    marker.position.copy(point);
+    marker.renderOrder = 10;
+    this.scene.add(marker);
+    this.calibration.markers.push(marker);
+    this.calibration.points.push(point);
+
+    if (this.calibration.points.length === 2) {
+      const line = new THREE.Line(
+        new THREE.BufferGeometry().setFromPoints(this.calibration.points),
+        new THREE.LineBasicMaterial({ color: 0xfacc15, depthTest: false })
+      );
+      line.renderOrder = 10;
+      this.scene.add(line);
+      this.calibration.markers.push(line);
+    }
+    this.updateCalibrationUI();
+    return true;
+  }
+
+  /** Measured horizontal distance between the two picked points (scene feet). */
+  private getCalibrationMeasuredDistance(): number {
+    if (!this.calibration || this.calibration.points.length < 2) return 0;
+    const [a, b] = this.calibration.points;
+    return Math.hypot(b.x - a.x, b.z - a.z);
+  }
+
+  private applyCalibrationFromInput() {
+    const input = document.getElementById('calibration-distance') as HTMLInputElement;
+    const status = document.getElementById('calibration-status') as HTMLElement;
+    const measured = this.getCalibrationMeasuredDistance();
+    const real = parseFeetInches(input.value, NaN);
+    if (!(measured > 0.01) || !Number.isFinite(real) || real <= 0) {
+      status.textContent = `Enter a distance such as 12'-6" (points must be apart horizontally).`;
+      return;
+    }
+
+    const factor = real / measured;
+    this.cancelCalibration();
+    this.applyScaleCalibration(factor);
+    this.storeCalibration();
+    input.value = '';
+  }
+
+  /**
+   * Scales the scene horizontally about the origin by `factor`. Walls and
+   * their openings are rebuilt from rescaled registry values so edits and
+   * estimate volumes follow; wall thickness is a real size, not a plan
+   * distance, and keeps its value. Everything else scales in x/z.
+   */
+  private applyScaleCalibration(factor: number) {
+    if (!Number.isFinite(factor) || factor <= 0 || factor === 1) return;
+    this.deselectOpening();
+    this.deselectWall();
+
+    const skip = new Set<THREE.Object3D>();
+    this.wallRegistry.forEach((entry, mesh) => {
+      skip.add(mesh);
+      entry.openings.forEach((opening) => {
+        if (opening.displayMesh) skip.add(opening.displayMesh);
+      });
+    });
+
+    this.buildingGroup.children.forEach((obj) => {
+      if (skip.has(obj) || obj.name === 'auto-generated-floor') return;
+      obj.position.x *= factor;
+      obj.position.z *= factor;
+      obj.scale.x *= factor;
+      obj.scale.z *= factor;
+    });
+
+    this.wallRegistry.forEach((entry, mesh) => {
+      entry.length *= factor;
+      entry.worldPos.x *= factor;
+      entry.worldPos.z *= factor;
+      entry.pts = entry.pts.map(([x, z]) => [x * factor, z * factor] as [number, number]);
+      entry.openings.forEach((opening) => {
+        opening.offset *= factor;
+        opening.width *= factor;
+        this.resizeOpeningDisplayMesh(opening);
+      });
+      mesh.position.x = entry.worldPos.x;
+      mesh.position.z = entry.worldPos.z;
+    });
+    // Corners are joined against neighbours, so rebuild only once all are scaled
+    this.rebuildAllWalls();
+
+    this.calibrationScale *= factor;
+    this.addAutoFloorFromWalls();
+    this.refreshEstimateIfOpen();
+    this.refreshDimensionCheck();
+    this.frameCamera();
+    this.walkthroughController.syncEnvironment();
+    this.updateCalibrationUI();
+  }
+
+  private calibrationStorageKey(): string {
+    return `house3d.scaleCalibration.${this.projectKey}`;
+  }
+
+  private loadStoredCalibration(): number {
+    try {
+      const value = parseFloat(localStorage.getItem(this.calibrationStorageKey()) || '');
+      return Number.isFinite(value) && value > 0 ? value : 1;
+    } catch {
+      return 1;
+    }
+  }
+
+  private storeCalibration() {
+    try {
+      localStorage.setItem(this.calibrationStorageKey(), String(this.calibrationScale));
+    } catch {
+      // Storage unavailable (private mode) — the calibration still applies for this session
+    }
+  }
+
+  private updateCalibrationUI() {
+    const btn = document.getElementById('calibrate-scale-btn') as HTMLButtonElement | null;
+    const panel = document.getElementById('calibration-panel') as HTMLElement | null;
+    const status = document.getElementById('calibration-status') as HTMLElement | null;
+    const input = document.getElementById('calibration-distance') as HTMLInputElement | null;
+    const applyBtn = document.getElementById('calibration-apply-btn') as HTMLButtonElement | null;
+    const factorText = document.getElementById('calibration-factor') as HTMLElement | null;
+    if (!btn || !panel || !status || !input || !applyBtn || !factorText) return;
+
+    const picked = this.calibration?.points.length ?? 0;
+    btn.textContent = this.calibration ? 'Cancel Calibration' : 'Calibrate Scale';
+    panel.style.display = this.calibration ? 'block' : 'none';
+    input.disabled = picked < 2;
+    applyBtn.disabled = picked < 2;
+    if (picked === 0) status.textContent = 'Click the first point on a wall or floor.';
+    else if (picked === 1) status.textContent = 'Click the second point.';
+    else status.textContent = `Measured ${this.getCalibrationMeasuredDistance().toFixed(2)} ft — enter the real distance:`;
+    if (picked === 2) input.focus();
+
+    factorText.textContent = this.calibrationScale !== 1 ? `Scale factor ×${this.calibrationScale.toFixed(4)}` : '';
+  }
+
+  private showScaleWarning(message: string | null) {
+    const warning = document.getElementById('scale-warning') as HTMLElement | null;
+    if (!warning) return;
+    warning.textContent = message ? `⚠ ${message}` : '';
+    warning.style.display = message ? 'block' : 'none';
+  }
+
   private clearScene() {
+    this.deselectOpening();
+    this.cancelCalibration();
+    this.calibrationScale = 1;
+    this.updateCalibrationUI();
+    this.showScaleWarning(null);
     this.wallRegistry.clear();
     this.selectedWall = null;
     this.undoStack = [];
     this.redoStack = [];
     this.sourceGroups.clear();
     this.pageGroups.clear();
+    this.levels.clear();
+    this.hiddenLevels.clear();
+    this.confidenceThreshold = 0;
+    this.loadDiagnostics = [];
     this.sourceVisibility.clear();
     this.pageVisibility.clear();
     this.pageRoofVisibility.clear();
@@ -3261,6 +4190,9 @@ class HouseViewer {
     }
 
     this.renderAssemblyTree();
+    this.renderLevelsPanel();
+    this.renderDimensionPanel();
+    this.applyConfidenceFilter();
   }
 
   private addAutoFloorFromWalls() {
@@ -3274,6 +4206,9 @@ class HouseViewer {
       this.buildingGroup.remove(mesh);
     }
 
+    // Record-driven slabs (floor_area / garage_area) take the place of the bounding-box floor
+    if (this.buildingGroup.children.some((child) => child.userData?.areaSlab === true)) return;
+
     const wallMeshes = this.getWallMeshes();
     if (!wallMeshes.length) return;
 
@@ -3331,8 +4266,16 @@ class HouseViewer {
     const legend = document.querySelector('.legend') as HTMLElement;
     legend.innerHTML = Object.entries(LABEL_MAP).map(([type, label]) => {
       const hex = (MATERIAL_COLORS[type] ?? MATERIAL_COLORS.default).toString(16).padStart(6, '0');
+      if (FACADE_LAYERS[type]) {
+        // Facade layers can be shown/hidden from the legend
+        const off = this.hiddenFacadeTypes.has(type) ? ' legend-item-off' : '';
+        return `<div class="legend-item legend-toggle${off}" data-facade-type="${type}" title="Click to show/hide"><span class="color" style="background:#${hex}"></span>${label}</div>`;
+      }
       return `<div class="legend-item"><span class="color" style="background:#${hex}"></span>${label}</div>`;
     }).join('');
+    legend.querySelectorAll<HTMLElement>('[data-facade-type]').forEach((item) => {
+      item.addEventListener('click', () => this.toggleFacadeLayer(item.dataset.facadeType as string));
+    });
   }
 
   private updateLegendForOldFormat() {
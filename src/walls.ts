@@ -0,0 +1,249 @@
+import * as THREE from 'three';
+import { CSG } from 'three-csg-ts';
+import { createBoxIndex } from './loaders';
+import type { OpeningBox, Vec2 } from './loaders';
+
+// ─── Wall solids ─────────────────────────────────────────────────────────────
+// What cutting a wall needs to know: its placement in plan (a midpoint and a
+// rotation about Y, like the mesh), its size and its openings. The viewer's
+// wall registry entries are WallSolids.
+export interface WallSolid {
+  length: number;
+  height: number;
+  thickness: number;
+  baseElev: number;
+  worldPos: { x: number; z: number };
+  worldRotY: number;
+  openings: Array<{ offset: number; sill: number; width: number; height: number }>;
+}
+
+/** Centerline of a wall in world XZ: midpoint, unit axis, unit normal (local +Z). */
+export interface WallFrame {
+  mid: Vec2;
+  axis: Vec2;
+  normal: Vec2;
+}
+
+// ─── Wall corner helpers ─────────────────────────────────────────────────────
+// A wall end is cut by a face that may be angled: `left` / `right` are where
+// it meets the wall's local +Z / -Z faces, measured along local X.
+export interface WallEndCut {
+  left: number;
+  right: number;
+}
+
+const WALL_JOIN_MIN_ANGLE = Math.sin((10 * Math.PI) / 180); // nearly collinear walls are not mitred
+
+function cross2(a: Vec2, b: Vec2): number {
+  return a[0] * b[1] - a[1] * b[0];
+}
+
+/** Intersection of the lines p + t·d and q + s·e, or null when parallel. */
+function intersectLines2D(p: Vec2, d: Vec2, q: Vec2, e: Vec2): Vec2 | null {
+  const denom = cross2(d, e);
+  if (Math.abs(denom) < 1e-9) return null;
+  const t = cross2([q[0] - p[0], q[1] - p[1]], e) / denom;
+  return [p[0] + d[0] * t, p[1] + d[1] * t];
+}
+
+/**
+ * Wall solid between two end cuts: a box when both ends are square, otherwise
+ * a prism with mitred or butted ends. Centred like BoxGeometry, one UV square per face.
+ */
+function buildWallPrismGeometry(start: WallEndCut, end: WallEndCut, height: number, thickness: number): THREE.BufferGeometry {
+  const h = height / 2;
+  const t = thickness / 2;
+  const corner = (x: number, y: number, z: number) => new THREE.Vector3(x, y, z);
+  const SL = [corner(start.left, -h, t), corner(start.left, h, t)];
+  const EL = [corner(end.left, -h, t), corner(end.left, h, t)];
+  const ER = [corner(end.right, -h, -t), corner(end.right, h, -t)];
+  const SR = [corner(start.right, -h, -t), corner(start.right, h, -t)];
+
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const uvs: number[] = [];
+  // Quad a-b-c-d, wound so its normal points along `outward`
+  const quad = (a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3, d: THREE.Vector3, outward: THREE.Vector3) => {
+    const n = new THREE.Vector3().subVectors(b, a).cross(new THREE.Vector3().subVectors(c, a)).normalize();
+    const [p0, p1, p2, p3] = n.dot(outward) >= 0 ? [a, b, c, d] : [a, d, c, b];
+    if (n.dot(outward) < 0) n.negate();
+    const uv = [[0, 0], [1, 0], [1, 1], [0, 1]];
+    [[p0, 0], [p1, 1], [p2, 2], [p0, 0], [p2, 2], [p3, 3]].forEach(([pt, k]) => {
+      const v = pt as THREE.Vector3;
+      positions.push(v.x, v.y, v.z);
+      normals.push(n.x, n.y, n.z);
+      uvs.push(...uv[k as number]);
+    });
+  };
+
+  quad(SL[0], EL[0], EL[1], SL[1], new THREE.Vector3(0, 0, 1));
+  quad(ER[0], SR[0], SR[1], ER[1], new THREE.Vector3(0, 0, -1));
+  quad(SR[0], SL[0], SL[1], SR[1], new THREE.Vector3(-1, 0, 0));
+  quad(EL[0], ER[0], ER[1], EL[1], new THREE.Vector3(1, 0, 0));
+  quad(SL[1], EL[1], ER[1], SR[1], new THREE.Vector3(0, 1, 0));
+  quad(SR[0], ER[0], EL[0], SL[0], new THREE.Vector3(0, -1, 0));
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  geometry.setAttribute('normal', new THREE.Float32BufferAttribute(normals, 3));
+  geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
+  geometry.computeBoundingBox();
+  geometry.computeBoundingSphere();
+  return geometry;
+}
+
+/**
+ * Grid of wall footprints, each grown by 1.5× its thickness, so joins only
+ * test the walls around a point instead of the whole registry.
+ */
+export function createWallIndex<K>(walls: Map<K, WallSolid>): (box: OpeningBox) => K[] {
+  const items = Array.from(walls.entries()).map(([key, wall]) => ({
+    box: wallFootprint(wall, wall.thickness * 1.5),
+    value: key,
+  }));
+  const meanLength = items.reduce((sum, item) => sum + walls.get(item.value)!.length, 0) / Math.max(items.length, 1);
+  return createBoxIndex(items, meanLength);
+}
+
+/** Plan bounding box of a wall's centerline grown by `reach` (x → x, z → y). */
+export function wallFootprint(wall: WallSolid, reach: number): OpeningBox {
+  const { mid, axis } = wallFrame(wall);
+  const dx = Math.abs(axis[0]) * wall.length / 2;
+  const dz = Math.abs(axis[1]) * wall.length / 2;
+  return { xmin: mid[0] - dx - reach, xmax: mid[0] + dx + reach, ymin: mid[1] - dz - reach, ymax: mid[1] + dz + reach };
+}
+
+/** Frame of a wall from its midpoint and rotation. */
+export function wallFrame(wall: WallSolid): WallFrame {
+  const r = wall.worldRotY;
+  return {
+    mid: [wall.worldPos.x, wall.worldPos.z],
+    axis: [Math.cos(r), -Math.sin(r)],
+    normal: [Math.sin(r), Math.cos(r)],
+  };
+}
+
+/**
+ * End cuts of a wall against the walls it meets on the same level. An end
+ * near another wall's end is mitred (L corner); an end on another wall's
+ * span is butted against its near face (T junction); otherwise it is square.
+ */
+function wallEndCuts<K>(key: K, wall: WallSolid, walls: Map<K, WallSolid>, wallsNear: (box: OpeningBox) => K[]): { start: WallEndCut; end: WallEndCut } {
+  const half = wall.length / 2;
+  const square = { start: { left: -half, right: -half }, end: { left: half, right: half } };
+  const A = wallFrame(wall);
+  const at = (f: { mid: Vec2; axis: Vec2 }, d: number): Vec2 => [f.mid[0] + f.axis[0] * d, f.mid[1] + f.axis[1] * d];
+  const along = (pt: Vec2) => (pt[0] - A.mid[0]) * A.axis[0] + (pt[1] - A.mid[1]) * A.axis[1];
+  const sideLine = (f: { mid: Vec2; normal: Vec2 }, sign: number, thickness: number): Vec2 =>
+    [f.mid[0] + f.normal[0] * sign * thickness / 2, f.mid[1] + f.normal[1] * sign * thickness / 2];
+  const dot = (a: Vec2, b: Vec2) => a[0] * b[0] + a[1] * b[1];
+
+  const cutEnd = (sign: -1 | 1): WallEndCut | null => {
+    const P = at(A, sign * half);
+    const u: Vec2 = [A.axis[0] * sign, A.axis[1] * sign];   // outward at this end
+    let corner: { B: WallFrame; bt: number; v: Vec2 } | null = null;
+    let cornerCount = 0;
+    let butt: { B: WallFrame; bt: number; dist: number } | null = null;
+
+    const r = wall.thickness * 1.5;
+    wallsNear({ xmin: P[0] - r, xmax: P[0] + r, ymin: P[1] - r, ymax: P[1] + r }).forEach((otherKey) => {
+      const other = walls.get(otherKey);
+      if (!other || otherKey === key || Math.abs(other.baseElev - wall.baseElev) > 0.5) return;
+      const B = wallFrame(other);
+      if (Math.abs(cross2(A.axis, B.axis)) < WALL_JOIN_MIN_ANGLE) return;
+      const tol = Math.max(wall.thickness, other.thickness);
+      const bHalf = other.length / 2;
+
+      for (const bSign of [-1, 1] as const) {
+        const Q = at(B, bSign * bHalf);
+        if (Math.hypot(P[0] - Q[0], P[1] - Q[1]) <= tol) {
+          corner = { B, bt: other.thickness, v: [B.axis[0] * bSign, B.axis[1] * bSign] };
+          cornerCount++;
+          return;
+        }
+      }
+      const rel: Vec2 = [P[0] - B.mid[0], P[1] - B.mid[1]];
+      const s = dot(rel, B.axis);
+      const dist = Math.abs(dot(rel, B.normal));
+      if (Math.abs(s) < bHalf - tol / 2 && dist <= other.thickness / 2 + tol && (!butt || dist < butt.dist)) {
+        butt = { B, bt: other.thickness, dist };
+      }
+    });
+
+    const cut = (bLineSign: number, B: { mid: Vec2; axis: Vec2; normal: Vec2 }, bt: number, aSign: number) => {
+      const hit = intersectLines2D(sideLine(A, aSign, wall.thickness), A.axis, sideLine(B, bLineSign, bt), B.axis);
+      return hit ? along(hit) : null;
+    };
+
+    let left: number | null = null;
+    let right: number | null = null;
+    const buttHit = butt as { B: WallFrame; bt: number } | null;
+    const cornerHit = corner as { B: WallFrame; bt: number; v: Vec2 } | null;
+    if (buttHit) {
+      // Stop both faces on the through wall's face toward this wall
+      const near = dot(buttHit.B.normal, u) < 0 ? 1 : -1;
+      left = cut(near, buttHit.B, buttHit.bt, 1);
+      right = cut(near, buttHit.B, buttHit.bt, -1);
+    } else if (cornerHit && cornerCount === 1) {
+      // Inner faces meet at the inside corner, outer faces at the outside corner
+      const aInner = dot(A.normal, cornerHit.v) < 0 ? 1 : -1;
+      const bInner = dot(cornerHit.B.normal, u) < 0 ? 1 : -1;
+      const inner = cut(bInner, cornerHit.B, cornerHit.bt, aInner);
+      const outer = cut(-bInner, cornerHit.B, cornerHit.bt, -aInner);
+      left = aInner === 1 ? inner : outer;
+      right = aInner === 1 ? outer : inner;
+    }
+    if (left === null || right === null) return null;
+
+    // Very sharp angles would throw the faces far past the corner; keep those square
+    const reach = Math.max(wall.thickness * 4, 1);
+    if (Math.abs(left - sign * half) > reach || Math.abs(right - sign * half) > reach) return null;
+    return { left, right };
+  };
+
+  const start = cutEnd(-1) ?? square.start;
+  const end = cutEnd(1) ?? square.end;
+  if (end.left - start.left < 0.05 || end.right - start.right < 0.05) return square;
+  return { start, end };
+}
+
+/** Opening offset clamped so the opening never hangs past the wall ends. */
+export function clampedOpeningOffset(wall: WallSolid, opening: WallSolid['openings'][number]): number {
+  const maxOffset = Math.max(0, (wall.length - opening.width) / 2);
+  return Math.max(-maxOffset, Math.min(maxOffset, opening.offset));
+}
+
+/**
+ * Geometry of one wall in its local space: the prism between its end cuts
+ * against the other walls in `walls`, with every opening cut through it.
+ * `wallsNear` is an index over the same walls (see createWallIndex).
+ */
+export function buildWallGeometry<K>(key: K, wall: WallSolid, walls: Map<K, WallSolid>, wallsNear: (box: OpeningBox) => K[]): THREE.BufferGeometry {
+  const cuts = wallEndCuts(key, wall, walls, wallsNear);
+  const geometry = buildWallPrismGeometry(cuts.start, cuts.end, wall.height, wall.thickness);
+  if (!wall.openings.length) return geometry;
+
+  // Cut in the wall's local space so the result is independent of its placement
+  const solid = new THREE.Mesh(geometry);
+  solid.updateMatrix();
+  let wallCSG = CSG.fromMesh(solid);
+
+  wall.openings.forEach((opening) => {
+    const cutter = new THREE.Mesh(new THREE.BoxGeometry(opening.width, opening.height, wall.thickness + 0.1));
+    cutter.position.set(
+      clampedOpeningOffset(wall, opening),
+      -wall.height / 2 + opening.sill + opening.height / 2,
+      0
+    );
+    cutter.updateMatrix();
+    wallCSG = wallCSG.subtract(CSG.fromMesh(cutter));
+    cutter.geometry.dispose();
+  });
+
+  const cutGeometry = CSG.toGeometry(wallCSG, solid.matrix);
+  cutGeometry.computeBoundingBox();
+  cutGeometry.computeBoundingSphere();
+  cutGeometry.computeVertexNormals();
+  geometry.dispose();
+  return cutGeometry;
+}